@@ -0,0 +1,393 @@
+/**
+ * Behind the Test - Mock Spotify Web: Catalog
+ *
+ * Static music catalog served by the offline Spotify Web stand-in.
+ * Pink Floyd IDs mirror the real open.spotify.com entities so URLs captured
+ * in evidence stay recognisable when compared with live runs. Artists added
+ * for the search relevance suite (diacritics, non-Latin scripts) use
+ * stand-in IDs. Catalog order doubles as popularity for ranking ties.
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ */
+
+export interface Track {
+  id: string;
+  title: string;
+  durationSeconds: number;
+}
+
+export interface Album {
+  id: string;
+  title: string;
+  artistId: string;
+  releaseYear: number;
+  coverColor: string;
+  tracks: Track[];
+}
+
+export interface Artist {
+  id: string;
+  name: string;
+  monthlyListeners: number;
+  topTrackIds: string[];
+  /** Other names the artist is searchable by: romanisations, native script. */
+  aliases?: string[];
+}
+
+export interface Playlist {
+  id: string;
+  name: string;
+  description: string;
+  owner: string;
+  trackIds: string[];
+}
+
+export const artists: Artist[] = [
+  {
+    id: '0k17h0D3J5VfsdmQ1iZtE9',
+    name: 'Pink Floyd',
+    monthlyListeners: 21_834_112,
+    topTrackIds: ['6mFkJmJqdDVQ1REhVfGgd1', '0vFOzaXqZHahrZp6enQwQb', '3TO7bbrUKrOSPGRTB5MeCz', '2ctvdKmETyOzPb2GiJJT53'],
+  },
+  {
+    id: 'gNSWPH8prVqsUeQCtDR3zz',
+    name: 'Beyoncé',
+    monthlyListeners: 48_215_907,
+    topTrackIds: ['R4hLLOOxl3gV3FGRmrCNnF', 'ZsGqgh0frrhbkVAhRHLfBE', 'eKjFTrKCb0Tz8BbwTKx8Eq', 'wtHmcOJEZqgygcmtbaLGsH'],
+  },
+  {
+    id: 'X6hqo35uwZqxZOOHjkJQQr',
+    name: 'Björk',
+    monthlyListeners: 4_102_556,
+    topTrackIds: ['vsUW5xcJ6MV8YWkGP1mxFy', 'p9yIJX6uF68NcpP7BEXvfq', 'IBAiCofjZUljbQ6oP3Q0w7', 'MQ0JTcKADr9Eu7e3xdRP7P'],
+  },
+  {
+    id: 'kaPehMvbfrn2yzL7C5Mg3P',
+    name: 'Sigur Rós',
+    monthlyListeners: 2_377_490,
+    topTrackIds: ['Wo0pmq23epYfD3QJdbmRZR', 'qis9KZXTt9nHL15Cb5PeCv', 'y4Lja4CDY3FTHbsfrpsRLP', 'KyYMBqRW9AmYby3TEpy0Hh'],
+  },
+  {
+    id: 'MPsXBDo5VeOeTTlTxDSmyg',
+    name: '宇多田ヒカル',
+    monthlyListeners: 6_830_114,
+    topTrackIds: ['bnGXei4Lo53t2zLE0MZwlw', 'E5tIdjdHbRtFxOsxQ9VliZ', 'mhG2Vo7ysMChyXhCXMWZeT', '0I07pdLInIIWLymIfix3OE'],
+    aliases: ['Hikaru Utada', 'Utada Hikaru', 'Utada'],
+  },
+  {
+    id: 'ePQ44xh5Gv2rkDETXgOwcI',
+    name: 'BTS',
+    monthlyListeners: 31_402_218,
+    topTrackIds: ['IWSAtTpZsnkS9PhqpGOdnj', 'nzqhooamVRQXtc5rJpov9i', '4jDnTUPq977mGL6Pt7hFOz', 'bEIuBusIu1IeZPavepk9mC'],
+    aliases: ['방탄소년단', 'Bangtan Boys'],
+  },
+  {
+    id: 'qCF7TyWyazKp2TesfGMKnX',
+    name: 'Motörhead',
+    monthlyListeners: 5_964_381,
+    topTrackIds: ['qyrxlbiUshF0U71P8FQdoE', '7bdiAP7W2lMm3Slycnsi71'],
+  },
+];
+
+export const albums: Album[] = [
+  {
+    id: '4LH4d3cOWNNsVw41Gqt2kv',
+    title: 'The Dark Side of the Moon',
+    artistId: '0k17h0D3J5VfsdmQ1iZtE9',
+    releaseYear: 1973,
+    coverColor: '#101010',
+    tracks: [
+      { id: '574y1r7o2tRA009FW0LE7v', title: 'Speak to Me', durationSeconds: 67 },
+      { id: '2ctvdKmETyOzPb2GiJJT53', title: 'Breathe (In the Air)', durationSeconds: 169 },
+      { id: '73OIUNKRi2y24Hu227Mti5', title: 'On the Run', durationSeconds: 225 },
+      { id: '3TO7bbrUKrOSPGRTB5MeCz', title: 'Time', durationSeconds: 413 },
+      { id: '2TjdnqlpwOjhijHCwHCP2d', title: 'The Great Gig in the Sky', durationSeconds: 276 },
+      { id: '0vFOzaXqZHahrZp6enQwQb', title: 'Money', durationSeconds: 382 },
+      { id: '1TKTiKp3zbNgrBH2IwSwIx', title: 'Us and Them', durationSeconds: 469 },
+      { id: '6FBPOJLxUZEair6x4kLDhf', title: 'Any Colour You Like', durationSeconds: 206 },
+      { id: '05uGBKRCuePsf43Hfm0JwX', title: 'Brain Damage', durationSeconds: 226 },
+      { id: '1tDWVeCR9oWGX8d5J9rswk', title: 'Eclipse', durationSeconds: 132 },
+    ],
+  },
+  {
+    id: '0bCAjiUamIFqKJsekOYuRw',
+    title: 'Wish You Were Here',
+    artistId: '0k17h0D3J5VfsdmQ1iZtE9',
+    releaseYear: 1975,
+    coverColor: '#c8b18a',
+    tracks: [
+      { id: '1a5Yu5L18qNxVhXx38njON', title: 'Shine On You Crazy Diamond (Pts. 1-5)', durationSeconds: 811 },
+      { id: '7h8ZcR8RV9DZTuRdy7AxFf', title: 'Welcome to the Machine', durationSeconds: 448 },
+      { id: '0LN0ASTtcGIbNTnjSHG6eO', title: 'Have a Cigar', durationSeconds: 308 },
+      { id: '6mFkJmJqdDVQ1REhVfGgd1', title: 'Wish You Were Here', durationSeconds: 334 },
+      { id: '4h4QlmocP3IuwYEj2j14p8', title: 'Shine On You Crazy Diamond (Pts. 6-9)', durationSeconds: 751 },
+    ],
+  },
+  {
+    id: '3b4E89rxzZQ9zkhgKpj8N4',
+    title: 'Animals',
+    artistId: '0k17h0D3J5VfsdmQ1iZtE9',
+    releaseYear: 1977,
+    coverColor: '#6b6f78',
+    tracks: [
+      { id: '3hoBpjp4Jp1OfUbmBD4vC2', title: 'Pigs on the Wing 1', durationSeconds: 85 },
+      { id: '0eb9B9ac6rPUxpWXvEG5ph', title: 'Dogs', durationSeconds: 1024 },
+      { id: '6NMBaLPG2YyZUX8dSB8tuj', title: 'Pigs (Three Different Ones)', durationSeconds: 685 },
+      { id: '6Hz3HDsaxY4szD4Yl7cmAA', title: 'Sheep', durationSeconds: 620 },
+      { id: '0bRvrAJUxPVEOfZhb4p1Ly', title: 'Pigs on the Wing 2', durationSeconds: 86 },
+    ],
+  },
+  {
+    id: 'RkIyDtFDBAM0gqEzpC3N8F',
+    title: 'Lemonade',
+    artistId: 'gNSWPH8prVqsUeQCtDR3zz',
+    releaseYear: 2016,
+    coverColor: '#e3c16f',
+    tracks: [
+      { id: 'R4hLLOOxl3gV3FGRmrCNnF', title: 'Formation', durationSeconds: 206 },
+      { id: 'ZsGqgh0frrhbkVAhRHLfBE', title: 'Hold Up', durationSeconds: 221 },
+    ],
+  },
+  {
+    id: '7Zwqhc9jXmaoq3GqlpnMR6',
+    title: 'Renaissance',
+    artistId: 'gNSWPH8prVqsUeQCtDR3zz',
+    releaseYear: 2022,
+    coverColor: '#b8b8b8',
+    tracks: [
+      { id: 'eKjFTrKCb0Tz8BbwTKx8Eq', title: 'Break My Soul', durationSeconds: 278 },
+      { id: 'wtHmcOJEZqgygcmtbaLGsH', title: 'Alien Superstar', durationSeconds: 215 },
+    ],
+  },
+  {
+    id: 'ZgimdS7jnqFCiI5ydYgqTx',
+    title: 'Homogenic',
+    artistId: 'X6hqo35uwZqxZOOHjkJQQr',
+    releaseYear: 1997,
+    coverColor: '#8a5a9c',
+    tracks: [
+      { id: 'vsUW5xcJ6MV8YWkGP1mxFy', title: 'Jóga', durationSeconds: 305 },
+      { id: 'p9yIJX6uF68NcpP7BEXvfq', title: 'Bachelorette', durationSeconds: 312 },
+    ],
+  },
+  {
+    id: 'I0g63eB1h3d1P7keaYRtci',
+    title: 'Debut',
+    artistId: 'X6hqo35uwZqxZOOHjkJQQr',
+    releaseYear: 1993,
+    coverColor: '#d9d4c7',
+    tracks: [
+      { id: 'IBAiCofjZUljbQ6oP3Q0w7', title: 'Human Behaviour', durationSeconds: 252 },
+      { id: 'MQ0JTcKADr9Eu7e3xdRP7P', title: 'Venus as a Boy', durationSeconds: 281 },
+    ],
+  },
+  {
+    id: 'GaJYpUa7w5h2hzyCswU7vb',
+    title: 'Ágætis byrjun',
+    artistId: 'kaPehMvbfrn2yzL7C5Mg3P',
+    releaseYear: 1999,
+    coverColor: '#7f8f94',
+    tracks: [
+      { id: 'Wo0pmq23epYfD3QJdbmRZR', title: 'Svefn-g-englar', durationSeconds: 604 },
+      { id: 'qis9KZXTt9nHL15Cb5PeCv', title: 'Starálfur', durationSeconds: 407 },
+    ],
+  },
+  {
+    id: 'MxEnWRwvFI1tdlNODi520r',
+    title: 'Takk...',
+    artistId: 'kaPehMvbfrn2yzL7C5Mg3P',
+    releaseYear: 2005,
+    coverColor: '#c9a227',
+    tracks: [
+      { id: 'y4Lja4CDY3FTHbsfrpsRLP', title: 'Hoppípolla', durationSeconds: 268 },
+      { id: 'KyYMBqRW9AmYby3TEpy0Hh', title: 'Glósóli', durationSeconds: 376 },
+    ],
+  },
+  {
+    id: 'p23JOwv0HBhact35rktmZY',
+    title: 'First Love',
+    artistId: 'MPsXBDo5VeOeTTlTxDSmyg',
+    releaseYear: 1999,
+    coverColor: '#cfd8dc',
+    tracks: [
+      { id: 'bnGXei4Lo53t2zLE0MZwlw', title: 'First Love', durationSeconds: 257 },
+      { id: 'E5tIdjdHbRtFxOsxQ9VliZ', title: 'Automatic', durationSeconds: 321 },
+    ],
+  },
+  {
+    id: '1hfXV8f3JLoo58giEJEuyG',
+    title: '初恋',
+    artistId: 'MPsXBDo5VeOeTTlTxDSmyg',
+    releaseYear: 2018,
+    coverColor: '#a3b18a',
+    tracks: [
+      { id: 'mhG2Vo7ysMChyXhCXMWZeT', title: '初恋', durationSeconds: 283 },
+      { id: '0I07pdLInIIWLymIfix3OE', title: '誓い', durationSeconds: 274 },
+    ],
+  },
+  {
+    id: 'CuaWdIympIgwGSY77k6rBd',
+    title: 'BE',
+    artistId: 'ePQ44xh5Gv2rkDETXgOwcI',
+    releaseYear: 2020,
+    coverColor: '#e8e2d6',
+    tracks: [
+      { id: 'IWSAtTpZsnkS9PhqpGOdnj', title: 'Dynamite', durationSeconds: 199 },
+      { id: 'nzqhooamVRQXtc5rJpov9i', title: 'Life Goes On', durationSeconds: 207 },
+    ],
+  },
+  {
+    id: 'lW9eBOvE0mJ484S48BjW8J',
+    title: 'Map of the Soul: 7',
+    artistId: 'ePQ44xh5Gv2rkDETXgOwcI',
+    releaseYear: 2020,
+    coverColor: '#2b2b2b',
+    tracks: [
+      { id: '4jDnTUPq977mGL6Pt7hFOz', title: 'ON', durationSeconds: 246 },
+      { id: 'bEIuBusIu1IeZPavepk9mC', title: 'Black Swan', durationSeconds: 198 },
+    ],
+  },
+  {
+    id: 'odZr0laJ20AOGr8FCXpVdF',
+    title: 'Ace of Spades',
+    artistId: 'qCF7TyWyazKp2TesfGMKnX',
+    releaseYear: 1980,
+    coverColor: '#5d4037',
+    tracks: [
+      { id: 'qyrxlbiUshF0U71P8FQdoE', title: 'Ace of Spades', durationSeconds: 169 },
+      { id: '7bdiAP7W2lMm3Slycnsi71', title: 'Love Me Like a Reptile', durationSeconds: 203 },
+    ],
+  },
+];
+
+// QA Insight: Spotify's own editorial playlist ID, so the same deep link works live; tracks come from this catalog
+export const playlists: Playlist[] = [
+  {
+    id: '37i9dQZF1DXcBWIGoYBM5M',
+    name: "Today's Top Hits",
+    description: 'The hottest tracks right now.',
+    owner: 'Spotify',
+    trackIds: ['R4hLLOOxl3gV3FGRmrCNnF', 'IWSAtTpZsnkS9PhqpGOdnj', 'bnGXei4Lo53t2zLE0MZwlw', '6mFkJmJqdDVQ1REhVfGgd1', 'vsUW5xcJ6MV8YWkGP1mxFy'],
+  },
+];
+
+export function findArtist(id: string): Artist | undefined {
+  return artists.find((artist) => artist.id === id);
+}
+
+export function findAlbum(id: string): Album | undefined {
+  return albums.find((album) => album.id === id);
+}
+
+export function albumsByArtist(artistId: string): Album[] {
+  return albums.filter((album) => album.artistId === artistId);
+}
+
+export function findTrack(id: string): { track: Track; album: Album } | undefined {
+  for (const album of albums) {
+    const track = album.tracks.find((candidate) => candidate.id === id);
+    if (track) {
+      return { track, album };
+    }
+  }
+  return undefined;
+}
+
+export function findPlaylist(id: string): Playlist | undefined {
+  return playlists.find((playlist) => playlist.id === id);
+}
+
+export interface SearchResults {
+  topResult?: Artist;
+  tracks: { track: Track; album: Album }[];
+  artists: Artist[];
+  albums: Album[];
+}
+
+/** Lowercase, accents stripped, punctuation collapsed: "Björk" and "bjork" compare equal. */
+export function normalizeForSearch(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * How well `name` answers `needle` (both normalised): exact, prefix, word
+ * prefix, contains, then a typo-tolerant match of roughly one edit per five
+ * characters. 0 means no match.
+ */
+function matchScore(needle: string, name: string): number {
+  if (name === needle) return 100;
+  if (name.startsWith(needle)) return 80;
+  if (name.split(' ').some((word) => word.startsWith(needle))) return 70;
+  if (name.includes(needle)) return 60;
+
+  const allowedEdits = Math.floor(needle.length / 5);
+  const distance = editDistance(needle, name.slice(0, needle.length + allowedEdits));
+  return allowedEdits > 0 && distance <= allowedEdits ? 40 - distance : 0;
+}
+
+function artistScore(needle: string, artist: Artist): number {
+  return Math.max(...[artist.name, ...(artist.aliases ?? [])].map((name) => matchScore(needle, normalizeForSearch(name))));
+}
+
+/** Stable sort by descending score; ties keep catalog (popularity) order. */
+function rankByScore<T>(entries: { item: T; score: number }[]): T[] {
+  return entries
+    .filter((entry) => entry.score > 0)
+    .map((entry, index) => ({ ...entry, index }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map((entry) => entry.item);
+}
+
+/**
+ * Accent-insensitive, typo-tolerant search over artist names (and aliases)
+ * and album titles, ranked like Spotify renders an artist query: best
+ * matching artist on top, their top tracks as Songs, albums by relevance.
+ */
+export function search(query: string): SearchResults {
+  const needle = normalizeForSearch(query);
+  if (!needle) {
+    return { tracks: [], artists: [], albums: [] };
+  }
+
+  const artistScores = new Map(artists.map((artist) => [artist.id, artistScore(needle, artist)]));
+  const matchedArtists = rankByScore(artists.map((artist) => ({ item: artist, score: artistScores.get(artist.id)! })));
+
+  // QA Insight: An album is found by its own title, or slightly below its artist when the artist matched
+  const matchedAlbums = rankByScore(
+    albums.map((album) => ({
+      item: album,
+      score: Math.max(matchScore(needle, normalizeForSearch(album.title)), artistScores.get(album.artistId)! - 5),
+    })),
+  );
+
+  const tracks = matchedArtists
+    .flatMap((artist) => artist.topTrackIds)
+    .map((trackId) => findTrack(trackId))
+    .filter((entry): entry is { track: Track; album: Album } => entry !== undefined)
+    .slice(0, 4);
+
+  return {
+    topResult: matchedArtists[0],
+    tracks,
+    artists: matchedArtists,
+    albums: matchedAlbums,
+  };
+}
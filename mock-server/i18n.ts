@@ -0,0 +1,262 @@
+/**
+ * Behind the Test - Mock Spotify Web: Interface strings
+ *
+ * Only the copy the Episode 1 journey asserts on is translated; everything
+ * else falls back to English, just like a partially localised release.
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ */
+
+export type LocaleCode = 'en' | 'pt-BR' | 'es' | 'de' | 'ja';
+
+export interface LocaleStrings {
+  htmlLang: string;
+  languageName: string;
+  homeTitle: string;
+  searchLabel: string;
+  searchPlaceholder: string;
+  signUp: string;
+  logIn: string;
+  chooseLanguage: string;
+  popularArtists: string;
+  topResult: string;
+  songs: string;
+  artists: string;
+  albums: string;
+  noResults: string;
+  album: string;
+  artist: string;
+  song: string;
+  playlist: string;
+  monthlyListeners: string;
+  discography: string;
+  play: string;
+  /** Track row play button; {track} and {artist} are filled in per row. */
+  playTrack: string;
+  close: string;
+  saveToLibrary: string;
+  addToPlaylist: string;
+  follow: string;
+  authHeadline: string;
+  authSignUpFree: string;
+  authAlreadyHaveAccount: string;
+  notFoundTitle: string;
+  notFoundBody: string;
+}
+
+export const LOCALE_COOKIE = 'sp_locale';
+
+export const DEFAULT_LOCALE: LocaleCode = 'en';
+
+export const strings: Record<LocaleCode, LocaleStrings> = {
+  en: {
+    htmlLang: 'en',
+    languageName: 'English',
+    homeTitle: 'Spotify - Web Player: Music for everyone',
+    searchLabel: 'Search',
+    searchPlaceholder: 'What do you want to listen to?',
+    signUp: 'Sign up',
+    logIn: 'Log in',
+    chooseLanguage: 'Choose a language',
+    popularArtists: 'Popular artists',
+    topResult: 'Top result',
+    songs: 'Songs',
+    artists: 'Artists',
+    albums: 'Albums',
+    noResults: 'No results found',
+    album: 'Album',
+    artist: 'Artist',
+    song: 'Song',
+    playlist: 'Playlist',
+    monthlyListeners: 'monthly listeners',
+    discography: 'Discography',
+    play: 'Play',
+    playTrack: 'Play {track} by {artist}',
+    close: 'Close',
+    saveToLibrary: 'Save to Your Library',
+    addToPlaylist: 'Add to playlist',
+    follow: 'Follow',
+    authHeadline: 'Start listening with a free Spotify account',
+    authSignUpFree: 'Sign up free',
+    authAlreadyHaveAccount: 'Already have an account?',
+    notFoundTitle: 'Page not found',
+    notFoundBody: "We can't seem to find the page you are looking for.",
+  },
+  'pt-BR': {
+    htmlLang: 'pt-BR',
+    languageName: 'Português do Brasil',
+    homeTitle: 'Spotify - Web Player: Música para todos',
+    searchLabel: 'Pesquisar',
+    searchPlaceholder: 'O que você quer ouvir?',
+    signUp: 'Inscrever-se',
+    logIn: 'Entrar',
+    chooseLanguage: 'Escolha um idioma',
+    popularArtists: 'Artistas populares',
+    topResult: 'Melhor resultado',
+    songs: 'Músicas',
+    artists: 'Artistas',
+    albums: 'Álbuns',
+    noResults: 'Nenhum resultado encontrado',
+    album: 'Álbum',
+    artist: 'Artista',
+    song: 'Música',
+    playlist: 'Playlist',
+    monthlyListeners: 'ouvintes mensais',
+    discography: 'Discografia',
+    play: 'Tocar',
+    playTrack: 'Tocar {track} de {artist}',
+    close: 'Fechar',
+    saveToLibrary: 'Salvar na Sua Biblioteca',
+    addToPlaylist: 'Adicionar à playlist',
+    follow: 'Seguir',
+    authHeadline: 'Escute com uma conta gratuita do Spotify',
+    authSignUpFree: 'Inscreva-se grátis',
+    authAlreadyHaveAccount: 'Já tem uma conta?',
+    notFoundTitle: 'Página não encontrada',
+    notFoundBody: 'Não encontramos a página que você está procurando.',
+  },
+  es: {
+    htmlLang: 'es',
+    languageName: 'Español',
+    homeTitle: 'Spotify - Web Player: Música para todos',
+    searchLabel: 'Buscar',
+    searchPlaceholder: '¿Qué quieres escuchar?',
+    signUp: 'Registrarte',
+    logIn: 'Iniciar sesión',
+    chooseLanguage: 'Elige un idioma',
+    popularArtists: 'Artistas populares',
+    topResult: 'Resultado principal',
+    songs: 'Canciones',
+    artists: 'Artistas',
+    albums: 'Álbumes',
+    noResults: 'No se han encontrado resultados',
+    album: 'Álbum',
+    artist: 'Artista',
+    song: 'Canción',
+    playlist: 'Lista',
+    monthlyListeners: 'oyentes mensuales',
+    discography: 'Discografía',
+    play: 'Reproducir',
+    playTrack: 'Reproducir {track} de {artist}',
+    close: 'Cerrar',
+    saveToLibrary: 'Guardar en Tu biblioteca',
+    addToPlaylist: 'Añadir a playlist',
+    follow: 'Seguir',
+    authHeadline: 'Empieza a escuchar con una cuenta gratis de Spotify',
+    authSignUpFree: 'Regístrate gratis',
+    authAlreadyHaveAccount: '¿Ya tienes una cuenta?',
+    notFoundTitle: 'Página no encontrada',
+    notFoundBody: 'No encontramos la página que buscas.',
+  },
+  de: {
+    htmlLang: 'de',
+    languageName: 'Deutsch',
+    homeTitle: 'Spotify - Web Player: Musik für alle',
+    searchLabel: 'Suchen',
+    searchPlaceholder: 'Was möchtest du hören?',
+    signUp: 'Registrieren',
+    logIn: 'Anmelden',
+    chooseLanguage: 'Sprache auswählen',
+    popularArtists: 'Beliebte Künstler',
+    topResult: 'Top-Ergebnis',
+    songs: 'Songs',
+    artists: 'Künstler',
+    albums: 'Alben',
+    noResults: 'Keine Ergebnisse gefunden',
+    album: 'Album',
+    artist: 'Künstler',
+    song: 'Song',
+    playlist: 'Playlist',
+    monthlyListeners: 'monatliche Hörer',
+    discography: 'Diskografie',
+    play: 'Abspielen',
+    playTrack: '{track} von {artist} abspielen',
+    close: 'Schließen',
+    saveToLibrary: 'In deiner Bibliothek speichern',
+    addToPlaylist: 'Zur Playlist hinzufügen',
+    follow: 'Folgen',
+    authHeadline: 'Hör mit einem kostenlosen Spotify-Konto',
+    authSignUpFree: 'Kostenlos registrieren',
+    authAlreadyHaveAccount: 'Du hast schon ein Konto?',
+    notFoundTitle: 'Seite nicht gefunden',
+    notFoundBody: 'Wir können die gesuchte Seite leider nicht finden.',
+  },
+  ja: {
+    htmlLang: 'ja',
+    languageName: '日本語',
+    homeTitle: 'Spotify - ウェブプレーヤー: すべての人に音楽を',
+    searchLabel: '検索',
+    searchPlaceholder: '何を聴きたいですか？',
+    signUp: '登録する',
+    logIn: 'ログインする',
+    chooseLanguage: '言語を選択',
+    popularArtists: '人気アーティスト',
+    topResult: 'トップの結果',
+    songs: '曲',
+    artists: 'アーティスト',
+    albums: 'アルバム',
+    noResults: '結果が見つかりませんでした',
+    album: 'アルバム',
+    artist: 'アーティスト',
+    song: '曲',
+    playlist: 'プレイリスト',
+    monthlyListeners: '人の月間リスナー',
+    discography: 'ディスコグラフィ',
+    play: '再生する',
+    playTrack: '{artist}の{track}を再生する',
+    close: '閉じる',
+    saveToLibrary: 'マイライブラリに保存する',
+    addToPlaylist: 'プレイリストに追加',
+    follow: 'フォローする',
+    authHeadline: 'Spotifyの無料アカウントで聴く',
+    authSignUpFree: '無料で登録する',
+    authAlreadyHaveAccount: 'アカウントをお持ちですか？',
+    notFoundTitle: 'ページが見つかりません',
+    notFoundBody: 'お探しのページが見つかりませんでした。',
+  },
+};
+
+/**
+ * Locale path prefixes (open.spotify.com/intl-pt/album/...): a prefixed
+ * URL renders in that language whatever the cookie says, and its links
+ * keep the prefix.
+ */
+export const INTL_PATH_PREFIXES: Record<string, LocaleCode> = {
+  'intl-pt': 'pt-BR',
+  'intl-es': 'es',
+  'intl-de': 'de',
+  'intl-ja': 'ja',
+};
+
+export function isLocaleCode(value: string | undefined): value is LocaleCode {
+  return value !== undefined && Object.prototype.hasOwnProperty.call(strings, value);
+}
+
+/**
+ * Best supported locale for an Accept-Language header, or null when none
+ * matches: exact tags first, then the primary language (`pt-PT` → pt-BR),
+ * in the browser's q-value order. Only used while the visitor has not
+ * picked a language; an explicit choice (the locale cookie) always wins.
+ */
+export function negotiateLocale(acceptLanguage: string | undefined): LocaleCode | null {
+  const codes = Object.keys(strings) as LocaleCode[];
+  const ranges = (acceptLanguage ?? '')
+    .split(',')
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(';');
+      const quality = Number(params.find((param) => param.trim().startsWith('q='))?.trim().slice(2) ?? 1);
+      return { tag: tag.toLowerCase(), quality: Number.isNaN(quality) ? 0 : quality };
+    })
+    .filter(({ tag, quality }) => tag && tag !== '*' && quality > 0)
+    .sort((a, b) => b.quality - a.quality);
+
+  for (const { tag } of ranges) {
+    const primary = tag.split('-')[0];
+    const match = codes.find((code) => code.toLowerCase() === tag) ?? codes.find((code) => code.toLowerCase().split('-')[0] === primary);
+    if (match) {
+      return match;
+    }
+  }
+  return null;
+}
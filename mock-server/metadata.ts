@@ -0,0 +1,198 @@
+/**
+ * Behind the Test - Mock Spotify Web: Page metadata
+ *
+ * What search engines and link previews read from a page: description,
+ * robots directive, canonical URL, hreflang alternates, Open Graph and
+ * Twitter card tags and schema.org JSON-LD. Shaped like open.spotify.com:
+ * every locale version is canonical to itself, the unprefixed URL is the
+ * x-default, and search result pages are kept out of the index.
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ */
+
+import { Album, Artist, Playlist, Track, albumsByArtist, findArtist, findTrack } from './catalog';
+import { DEFAULT_LOCALE, INTL_PATH_PREFIXES, strings } from './i18n';
+import type { PageContext } from './render';
+
+/** Share image for pages without cover art (homepage, search). */
+export const SHARE_IMAGE_PATH = '/image/spotify-share.svg';
+
+export interface HreflangAlternate {
+  hreflang: string;
+  href: string;
+}
+
+export interface PageMetadata {
+  description: string;
+  robots: string;
+  canonical: string;
+  alternates: HreflangAlternate[];
+  /** `og:*` properties, rendered as `<meta property>`. */
+  openGraph: Record<string, string>;
+  /** `twitter:*` names, rendered as `<meta name>`. */
+  twitter: Record<string, string>;
+  jsonLd: Record<string, unknown> | null;
+}
+
+interface MetadataInput {
+  /** Path without the locale prefix, e.g. `/album/<id>`. */
+  path: string;
+  shareTitle: string;
+  description: string;
+  ogType: string;
+  image: string;
+  indexable?: boolean;
+  jsonLd?: Record<string, unknown>;
+}
+
+function absolute(ctx: PageContext, path: string): string {
+  return `${ctx.origin}${path}`;
+}
+
+function alternates(ctx: PageContext, path: string): HreflangAlternate[] {
+  return [
+    { hreflang: 'x-default', href: absolute(ctx, path) },
+    { hreflang: strings[DEFAULT_LOCALE].htmlLang, href: absolute(ctx, path) },
+    ...Object.entries(INTL_PATH_PREFIXES).map(([prefix, locale]) => ({
+      hreflang: strings[locale].htmlLang,
+      href: absolute(ctx, `/${prefix}${path}`),
+    })),
+  ];
+}
+
+function pageMetadata(ctx: PageContext, input: MetadataInput): PageMetadata {
+  const canonical = absolute(ctx, `${ctx.pathPrefix ?? ''}${input.path}`);
+  const image = absolute(ctx, input.image);
+  return {
+    description: input.description,
+    robots: input.indexable === false ? 'noindex, follow' : 'index, follow',
+    canonical,
+    alternates: alternates(ctx, input.path),
+    openGraph: {
+      'og:site_name': 'Spotify',
+      'og:type': input.ogType,
+      'og:title': input.shareTitle,
+      'og:description': input.description,
+      'og:url': canonical,
+      'og:image': image,
+      'og:locale': strings[ctx.locale].htmlLang.replace('-', '_'),
+    },
+    twitter: {
+      'twitter:card': 'summary',
+      'twitter:site': '@spotify',
+      'twitter:title': input.shareTitle,
+      'twitter:description': input.description,
+      'twitter:image': image,
+    },
+    jsonLd: input.jsonLd ? { '@context': 'https://schema.org', ...input.jsonLd, url: canonical } : null,
+  };
+}
+
+function coverPath(album: Album): string {
+  return `/image/${album.id}.svg`;
+}
+
+/** ISO 8601 duration, e.g. PT7M3S. */
+function isoDuration(totalSeconds: number): string {
+  return `PT${Math.floor(totalSeconds / 60)}M${totalSeconds % 60}S`;
+}
+
+function artistReference(ctx: PageContext, artist: Artist | undefined): Record<string, unknown> | undefined {
+  return artist && { '@type': 'MusicGroup', name: artist.name, url: absolute(ctx, `/artist/${artist.id}`) };
+}
+
+export function homeMetadata(ctx: PageContext): PageMetadata {
+  return pageMetadata(ctx, {
+    path: '/',
+    shareTitle: strings[ctx.locale].homeTitle,
+    description: 'Spotify is a digital music service that gives you access to millions of songs, podcasts and artists from all over the world.',
+    ogType: 'website',
+    image: SHARE_IMAGE_PATH,
+    jsonLd: {
+      '@type': 'WebSite',
+      name: 'Spotify',
+      potentialAction: {
+        '@type': 'SearchAction',
+        target: absolute(ctx, `${ctx.pathPrefix ?? ''}/search/{search_term_string}`),
+        'query-input': 'required name=search_term_string',
+      },
+    },
+  });
+}
+
+export function searchMetadata(ctx: PageContext): PageMetadata {
+  const query = ctx.query ?? '';
+  return pageMetadata(ctx, {
+    path: query ? `/search/${encodeURIComponent(query)}` : '/search',
+    shareTitle: query ? `${strings[ctx.locale].searchLabel}: ${query}` : strings[ctx.locale].searchLabel,
+    description: query
+      ? `Find songs, artists, albums and playlists for "${query}" on Spotify.`
+      : 'Search Spotify for songs, artists, albums and playlists.',
+    ogType: 'website',
+    image: SHARE_IMAGE_PATH,
+    indexable: false,
+  });
+}
+
+export function artistMetadata(ctx: PageContext, artist: Artist): PageMetadata {
+  const [firstAlbum] = albumsByArtist(artist.id);
+  const image = firstAlbum ? coverPath(firstAlbum) : SHARE_IMAGE_PATH;
+  return pageMetadata(ctx, {
+    path: `/artist/${artist.id}`,
+    shareTitle: artist.name,
+    description: `Listen to ${artist.name} on Spotify. Artist · ${artist.monthlyListeners.toLocaleString('en-US')} monthly listeners.`,
+    ogType: 'music.musician',
+    image,
+    jsonLd: { '@type': 'MusicGroup', name: artist.name, image: absolute(ctx, image) },
+  });
+}
+
+export function albumMetadata(ctx: PageContext, album: Album): PageMetadata {
+  const artist = findArtist(album.artistId);
+  return pageMetadata(ctx, {
+    path: `/album/${album.id}`,
+    shareTitle: album.title,
+    description: `Listen to ${album.title} on Spotify. ${artist?.name ?? ''} · Album · ${album.releaseYear} · ${album.tracks.length} songs.`,
+    ogType: 'music.album',
+    image: coverPath(album),
+    jsonLd: {
+      '@type': 'MusicAlbum',
+      name: album.title,
+      image: absolute(ctx, coverPath(album)),
+      datePublished: String(album.releaseYear),
+      numTracks: album.tracks.length,
+      byArtist: artistReference(ctx, artist),
+    },
+  });
+}
+
+export function trackMetadata(ctx: PageContext, track: Track, album: Album): PageMetadata {
+  const artist = findArtist(album.artistId);
+  return pageMetadata(ctx, {
+    path: `/track/${track.id}`,
+    shareTitle: track.title,
+    description: `Listen to ${track.title} on Spotify. Song · ${artist?.name ?? ''} · ${album.releaseYear}.`,
+    ogType: 'music.song',
+    image: coverPath(album),
+    jsonLd: {
+      '@type': 'MusicRecording',
+      name: track.title,
+      duration: isoDuration(track.durationSeconds),
+      byArtist: artistReference(ctx, artist),
+      inAlbum: { '@type': 'MusicAlbum', name: album.title, url: absolute(ctx, `/album/${album.id}`) },
+    },
+  });
+}
+
+export function playlistMetadata(ctx: PageContext, playlist: Playlist): PageMetadata {
+  const trackCount = playlist.trackIds.filter((trackId) => findTrack(trackId)).length;
+  return pageMetadata(ctx, {
+    path: `/playlist/${playlist.id}`,
+    shareTitle: playlist.name,
+    description: `${playlist.description} Playlist · ${playlist.owner} · ${trackCount} songs.`,
+    ogType: 'music.playlist',
+    image: SHARE_IMAGE_PATH,
+    jsonLd: { '@type': 'MusicPlaylist', name: playlist.name, numTracks: trackCount },
+  });
+}
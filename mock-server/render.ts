@@ -0,0 +1,543 @@
+/**
+ * Behind the Test - Mock Spotify Web: HTML rendering
+ *
+ * Server-side templates reproducing the parts of open.spotify.com the
+ * Episode 1 journey touches. Markup keeps the real data-testid, role and
+ * aria contracts so the same locators work against both targets.
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ */
+
+import { Album, Artist, Playlist, SearchResults, Track, albumsByArtist, findArtist, findTrack } from './catalog';
+import { LOCALE_COOKIE, LocaleCode, LocaleStrings, strings } from './i18n';
+import type { PageMetadata } from './metadata';
+
+export interface PageContext {
+  locale: LocaleCode;
+  /** Scheme and host the request came in on, for absolute canonical and share URLs. */
+  origin: string;
+  query?: string;
+  /** Locale path prefix such as `/intl-pt`, kept on every internal link; empty when unprefixed. */
+  pathPrefix?: string;
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export function formatDuration(totalSeconds: number): string {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
+/** Internal link that keeps the page's locale prefix. */
+function href(ctx: PageContext, path: string): string {
+  return `${ctx.pathPrefix ?? ''}${path}`;
+}
+
+function artistName(album: Album): string {
+  return findArtist(album.artistId)?.name ?? '';
+}
+
+const styles = `
+  [hidden] { display: none !important; }
+  body { margin: 0; font-family: Helvetica, Arial, sans-serif; background: #121212; color: #fff; }
+  a { color: inherit; }
+  header { display: flex; align-items: center; gap: 16px; padding: 12px 24px; background: #000; }
+  header form { flex: 1; }
+  header input { width: 100%; max-width: 420px; padding: 10px 16px; border-radius: 500px; border: none; }
+  main { padding: 24px; min-height: 60vh; }
+  footer { padding: 24px; border-top: 1px solid #282828; }
+  .card { display: inline-block; width: 180px; margin: 0 16px 16px 0; padding: 12px; background: #181818; border-radius: 8px; vertical-align: top; }
+  .card img { width: 100%; border-radius: 4px; }
+  .play-button { width: 56px; height: 56px; border-radius: 50%; border: none; background: #1ed760; font-size: 20px; cursor: pointer; }
+  [role="row"] { display: grid; grid-template-columns: 48px 1fr 80px; padding: 8px 0; }
+  #language-menu, [data-testid="login-modal"] { position: fixed; inset: 0; display: flex; align-items: center; justify-content: center; background: rgba(0, 0, 0, 0.7); }
+  .sheet { background: #282828; padding: 32px; border-radius: 8px; max-width: 480px; }
+  [role="option"] { padding: 8px 12px; cursor: pointer; list-style: none; }
+  #onetrust-banner-sdk, [data-testid="open-in-app-prompt"] { position: fixed; left: 0; right: 0; bottom: 0; padding: 24px; background: #fff; color: #000; }
+  [data-testid="promo-modal"] { position: fixed; inset: 0; display: flex; align-items: center; justify-content: center; background: rgba(0, 0, 0, 0.7); }
+  [data-testid="nav-menu-button"], [data-testid="mobile-bottom-nav"] { display: none; }
+  @media (max-width: 767px) {
+    body { padding-bottom: 64px; }
+    header { flex-wrap: wrap; }
+    header form, header [data-testid="signup-button"], header [data-testid="login-button"] { display: none; }
+    body.search-open header form { display: block; flex-basis: 100%; order: 3; }
+    body.nav-open header [data-testid="signup-button"], body.nav-open header [data-testid="login-button"] { display: block; flex-basis: 100%; }
+    [data-testid="nav-menu-button"] { display: block; margin-left: auto; }
+    [data-testid="mobile-bottom-nav"] { display: flex; justify-content: space-around; position: fixed; left: 0; right: 0; bottom: 0; padding: 16px; background: #000; }
+    [data-testid="login-modal"][data-variant="bottom-sheet"] { align-items: flex-end; }
+    [data-testid="login-modal"][data-variant="bottom-sheet"] .sheet { max-width: none; width: 100%; border-radius: 16px 16px 0 0; }
+  }
+`;
+
+const clientScript = `
+(() => {
+  const languageButton = document.querySelector('[data-testid="language-selection-button"]');
+  const languageMenu = document.getElementById('language-menu');
+  languageButton.addEventListener('click', () => {
+    languageMenu.hidden = false;
+    languageButton.setAttribute('aria-expanded', 'true');
+  });
+  languageMenu.addEventListener('click', (event) => {
+    const option = event.target.closest('[role="option"]');
+    if (option) {
+      document.cookie = '${LOCALE_COOKIE}=' + option.dataset.locale + '; path=/; max-age=31536000';
+      location.reload();
+    } else if (event.target === languageMenu) {
+      languageMenu.hidden = true;
+      languageButton.setAttribute('aria-expanded', 'false');
+    }
+  });
+
+  const searchInput = document.querySelector('[data-testid="search-input"]');
+  const main = document.querySelector('main');
+  let debounce;
+  const runSearch = async () => {
+    const query = searchInput.value.trim();
+    const path = document.body.dataset.pathPrefix + (query ? '/search/' + encodeURIComponent(query) : '/search');
+    history.replaceState(null, '', path);
+    const response = await fetch(path + '?fragment=main');
+    main.innerHTML = await response.text();
+  };
+  searchInput.addEventListener('input', () => {
+    clearTimeout(debounce);
+    debounce = setTimeout(runSearch, 250);
+  });
+  searchInput.form.addEventListener('submit', (event) => {
+    event.preventDefault();
+    clearTimeout(debounce);
+    runSearch();
+  });
+
+  // Mobile layout: collapsed navigation and a separate search entry point
+  const mobileLayout = window.matchMedia('(max-width: 767px)');
+  const navMenuButton = document.querySelector('[data-testid="nav-menu-button"]');
+  navMenuButton.addEventListener('click', () => {
+    const open = document.body.classList.toggle('nav-open');
+    navMenuButton.setAttribute('aria-expanded', String(open));
+  });
+  document.querySelector('[data-testid="mobile-search-link"]').addEventListener('click', (event) => {
+    event.preventDefault();
+    document.body.classList.remove('nav-open');
+    navMenuButton.setAttribute('aria-expanded', 'false');
+    document.body.classList.add('search-open');
+    searchInput.focus();
+  });
+
+  if (location.pathname.startsWith('/search')) {
+    document.body.classList.add('search-open');
+  }
+
+  const loginModal = document.querySelector('[data-testid="login-modal"]');
+  let modalTrigger = null;
+  const openModal = (trigger) => {
+    modalTrigger = trigger;
+    // Phones get the login prompt as a bottom sheet, closed by tapping the backdrop
+    loginModal.dataset.variant = mobileLayout.matches ? 'bottom-sheet' : 'dialog';
+    loginModal.hidden = false;
+    loginModal.querySelector('[data-testid="modal-close-button"]').focus();
+  };
+  const closeModal = () => {
+    if (loginModal.hidden) return;
+    loginModal.hidden = true;
+    if (modalTrigger) modalTrigger.focus();
+    modalTrigger = null;
+  };
+  document.addEventListener('click', (event) => {
+    const trigger = event.target.closest('[data-requires-login]');
+    if (trigger) {
+      event.preventDefault();
+      openModal(trigger);
+    } else if (event.target.closest('[data-testid="modal-close-button"]') || event.target === loginModal) {
+      closeModal();
+    }
+  });
+  document.addEventListener('keydown', (event) => {
+    if (event.key === 'Escape') {
+      closeModal();
+      languageMenu.hidden = true;
+    }
+  });
+
+  // Overlays: region and device variants decided the way the real site does, from the browser itself
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone || '';
+  const consentBanner = document.getElementById('onetrust-banner-sdk');
+  if (timeZone.startsWith('Europe/') && !document.cookie.includes('OptanonAlertBoxClosed=')) {
+    consentBanner.hidden = false;
+  }
+  consentBanner.addEventListener('click', (event) => {
+    if (event.target.closest('button')) {
+      document.cookie = 'OptanonAlertBoxClosed=' + new Date().toISOString() + '; path=/; max-age=31536000';
+      consentBanner.hidden = true;
+    }
+  });
+
+  const openInAppPrompt = document.querySelector('[data-testid="open-in-app-prompt"]');
+  if (navigator.maxTouchPoints > 0 && !sessionStorage.getItem('openInAppDismissed')) {
+    openInAppPrompt.hidden = false;
+  }
+  openInAppPrompt.querySelector('[data-testid="open-in-app-dismiss"]').addEventListener('click', () => {
+    sessionStorage.setItem('openInAppDismissed', '1');
+    openInAppPrompt.hidden = true;
+  });
+
+  const promoModal = document.querySelector('[data-testid="promo-modal"]');
+  if (timeZone.startsWith('America/') && !sessionStorage.getItem('promoDismissed')) {
+    promoModal.hidden = false;
+  }
+  promoModal.querySelector('[data-testid="promo-close-button"]').addEventListener('click', () => {
+    sessionStorage.setItem('promoDismissed', '1');
+    promoModal.hidden = true;
+  });
+})();
+`;
+
+function renderLanguageMenu(t: LocaleStrings, locale: LocaleCode): string {
+  const options = (Object.keys(strings) as LocaleCode[])
+    .map(
+      (code) =>
+        `<li role="option" tabindex="0" data-testid="language-option-${code}" data-locale="${code}" aria-selected="${code === locale}" lang="${strings[code].htmlLang}">${escapeHtml(strings[code].languageName)}</li>`,
+    )
+    .join('');
+
+  return `
+    <div id="language-menu" role="dialog" aria-modal="true" aria-label="${escapeHtml(t.chooseLanguage)}" hidden>
+      <div class="sheet">
+        <h2>${escapeHtml(t.chooseLanguage)}</h2>
+        <ul role="listbox" aria-label="${escapeHtml(t.chooseLanguage)}">${options}</ul>
+      </div>
+    </div>`;
+}
+
+function renderLoginModal(t: LocaleStrings): string {
+  return `
+    <div data-testid="login-modal" role="dialog" aria-modal="true" aria-labelledby="login-modal-title" hidden>
+      <div class="sheet">
+        <button type="button" data-testid="modal-close-button" aria-label="${escapeHtml(t.close)}">×</button>
+        <h2 id="login-modal-title">${escapeHtml(t.authHeadline)}</h2>
+        <a role="button" href="/signup" data-testid="modal-signup-button">${escapeHtml(t.authSignUpFree)}</a>
+        <p>${escapeHtml(t.authAlreadyHaveAccount)} <a role="button" href="/login" data-testid="modal-login-button">${escapeHtml(t.logIn)}</a></p>
+      </div>
+    </div>`;
+}
+
+/**
+ * Interruptions the real site shows between page load and the first click:
+ * the OneTrust consent banner (EU time zones), the open-in-app prompt
+ * (touch devices) and a Premium promo (Americas). English only, as on Spotify.
+ */
+function renderOverlays(): string {
+  return `
+    <div id="onetrust-banner-sdk" role="region" aria-label="Cookie banner" hidden>
+      <p>We and our partners use cookies to personalize your experience, to show you ads based on your interests, and for measurement and analytics purposes.</p>
+      <button type="button" id="onetrust-reject-all-handler">Reject All</button>
+      <button type="button" id="onetrust-accept-btn-handler">Accept Cookies</button>
+    </div>
+    <div data-testid="open-in-app-prompt" role="dialog" aria-label="Open in app" hidden>
+      <p>Spotify works better in the app</p>
+      <a href="spotify:">Open app</a>
+      <button type="button" data-testid="open-in-app-dismiss">Not now</button>
+    </div>
+    <div data-testid="promo-modal" role="dialog" aria-modal="true" aria-label="Premium offer" hidden>
+      <div class="sheet">
+        <button type="button" data-testid="promo-close-button" aria-label="Close">×</button>
+        <h2>Try 3 months of Premium for free</h2>
+        <a href="/premium">Get started</a>
+      </div>
+    </div>`;
+}
+
+/** Description, canonical, hreflang, Open Graph, Twitter card and JSON-LD tags for <head>. */
+function renderHeadMetadata(metadata: PageMetadata): string {
+  const tags = [
+    `<meta name="description" content="${escapeHtml(metadata.description)}">`,
+    `<meta name="robots" content="${escapeHtml(metadata.robots)}">`,
+    `<link rel="canonical" href="${escapeHtml(metadata.canonical)}">`,
+    ...metadata.alternates.map(({ hreflang, href: url }) => `<link rel="alternate" hreflang="${escapeHtml(hreflang)}" href="${escapeHtml(url)}">`),
+    ...Object.entries(metadata.openGraph).map(([property, content]) => `<meta property="${property}" content="${escapeHtml(content)}">`),
+    ...Object.entries(metadata.twitter).map(([name, content]) => `<meta name="${name}" content="${escapeHtml(content)}">`),
+  ];
+  if (metadata.jsonLd) {
+    // `<` escaped so a name like "</script>" cannot end the block early
+    tags.push(`<script type="application/ld+json">${JSON.stringify(metadata.jsonLd).replace(/</g, '\\u003c')}</script>`);
+  }
+  return tags.map((tag) => `  ${tag}`).join('\n');
+}
+
+export function renderDocument(ctx: PageContext, title: string, mainHtml: string, metadata?: PageMetadata): string {
+  const t = strings[ctx.locale];
+
+  return `<!DOCTYPE html>
+<html lang="${t.htmlLang}">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(title)}</title>
+${metadata ? `${renderHeadMetadata(metadata)}\n` : ''}  <style>${styles}</style>
+</head>
+<body data-path-prefix="${escapeHtml(ctx.pathPrefix ?? '')}">
+  <header>
+    <a href="${href(ctx, '/')}" aria-label="Spotify">Spotify</a>
+    <form role="search" action="${href(ctx, '/search')}">
+      <input data-testid="search-input" type="search" name="q" aria-label="${escapeHtml(t.searchLabel)}" placeholder="${escapeHtml(t.searchPlaceholder)}" value="${escapeHtml(ctx.query ?? '')}" autocomplete="off">
+    </form>
+    <a data-testid="signup-button" href="/signup">${escapeHtml(t.signUp)}</a>
+    <a data-testid="login-button" href="/login">${escapeHtml(t.logIn)}</a>
+    <button type="button" data-testid="nav-menu-button" aria-label="Menu" aria-expanded="false">☰</button>
+  </header>
+  <main>${mainHtml}</main>
+  <footer>
+    <button type="button" data-testid="language-selection-button" aria-haspopup="dialog" aria-expanded="false" aria-controls="language-menu">${escapeHtml(t.languageName)}</button>
+  </footer>
+  <nav data-testid="mobile-bottom-nav" aria-label="Main">
+    <a href="${href(ctx, '/')}">Home</a>
+    <a href="${href(ctx, '/search')}" data-testid="mobile-search-link" aria-label="${escapeHtml(t.searchLabel)}">${escapeHtml(t.searchLabel)}</a>
+  </nav>
+  ${renderLanguageMenu(t, ctx.locale)}
+  ${renderLoginModal(t)}
+  ${renderOverlays()}
+  <script>${clientScript}</script>
+</body>
+</html>`;
+}
+
+function renderArtistCard(ctx: PageContext, artist: Artist, t: LocaleStrings): string {
+  return `
+    <div class="card" data-testid="card" title="${escapeHtml(artist.name)}">
+      <a href="${href(ctx, `/artist/${artist.id}`)}">${escapeHtml(artist.name)}</a>
+      <span>${escapeHtml(t.artist)}</span>
+    </div>`;
+}
+
+function renderAlbumCard(ctx: PageContext, album: Album): string {
+  return `
+    <div class="card" data-testid="card" title="${escapeHtml(album.title)}">
+      <img src="/image/${album.id}.svg" alt="${escapeHtml(album.title)}">
+      <a href="${href(ctx, `/album/${album.id}`)}">${escapeHtml(album.title)}</a>
+      <span>${album.releaseYear} • ${escapeHtml(artistName(album))}</span>
+    </div>`;
+}
+
+export function renderHome(ctx: PageContext, popular: Artist[]): string {
+  const t = strings[ctx.locale];
+  return `
+    <section aria-label="${escapeHtml(t.popularArtists)}">
+      <h2>${escapeHtml(t.popularArtists)}</h2>
+      ${popular.map((artist) => renderArtistCard(ctx, artist, t)).join('')}
+    </section>`;
+}
+
+export function renderSearchResults(ctx: PageContext, results: SearchResults): string {
+  const t = strings[ctx.locale];
+
+  if (!ctx.query) {
+    return `<h1>${escapeHtml(t.searchLabel)}</h1>`;
+  }
+  if (!results.topResult && results.albums.length === 0) {
+    return `<section data-testid="search-results"><h2>${escapeHtml(t.noResults)}</h2></section>`;
+  }
+
+  const topResult = results.topResult
+    ? `
+      <section aria-label="${escapeHtml(t.topResult)}">
+        <h2>${escapeHtml(t.topResult)}</h2>
+        <a data-testid="top-result-card" href="${href(ctx, `/artist/${results.topResult.id}`)}">
+          <span>${escapeHtml(results.topResult.name)}</span>
+          <span>${escapeHtml(t.artist)}</span>
+        </a>
+      </section>`
+    : '';
+
+  const songs = results.tracks.length
+    ? `
+      <section aria-label="${escapeHtml(t.songs)}">
+        <h2>${escapeHtml(t.songs)}</h2>
+        <div role="list" data-testid="search-tracks">
+          ${results.tracks
+            .map(
+              ({ track, album }) => `
+            <div role="listitem" data-testid="search-track-row">
+              <a href="${href(ctx, `/track/${track.id}`)}">${escapeHtml(track.title)}</a>
+              <a href="${href(ctx, `/artist/${album.artistId}`)}">${escapeHtml(artistName(album))}</a>
+              <span>${formatDuration(track.durationSeconds)}</span>
+            </div>`,
+            )
+            .join('')}
+        </div>
+      </section>`
+    : '';
+
+  const artistsSection = results.artists.length
+    ? `
+      <section aria-label="${escapeHtml(t.artists)}">
+        <h2>${escapeHtml(t.artists)}</h2>
+        ${results.artists.map((artist) => renderArtistCard(ctx, artist, t)).join('')}
+      </section>`
+    : '';
+
+  const albumsSection = results.albums.length
+    ? `
+      <section aria-label="${escapeHtml(t.albums)}">
+        <h2>${escapeHtml(t.albums)}</h2>
+        ${results.albums.map((album) => renderAlbumCard(ctx, album)).join('')}
+      </section>`
+    : '';
+
+  return `<section data-testid="search-results">${topResult}${songs}${artistsSection}${albumsSection}</section>`;
+}
+
+/** Tracklist row shared by album and playlist pages; playlists also link each track's album. */
+function renderTrackRow(ctx: PageContext, { track, album }: { track: Track; album: Album }, index: number, withAlbum: boolean): string {
+  const t = strings[ctx.locale];
+  const artist = findArtist(album.artistId);
+  return `
+      <div role="row" data-testid="tracklist-row" aria-rowindex="${index + 2}">
+        <div role="gridcell">
+          <span>${index + 1}</span>
+          <button type="button" aria-label="${escapeHtml(artist ? t.playTrack.replace('{track}', () => track.title).replace('{artist}', () => artist.name) : `${t.play} ${track.title}`)}" data-requires-login>▶</button>
+        </div>
+        <div role="gridcell">
+          <a data-testid="track-name" href="${href(ctx, `/track/${track.id}`)}">${escapeHtml(track.title)}</a>
+          ${artist ? `<a href="${href(ctx, `/artist/${artist.id}`)}">${escapeHtml(artist.name)}</a>` : ''}
+        </div>
+        ${withAlbum ? `<div role="gridcell"><a href="${href(ctx, `/album/${album.id}`)}">${escapeHtml(album.title)}</a></div>` : ''}
+        <div role="gridcell" data-testid="track-duration">${formatDuration(track.durationSeconds)}</div>
+        <div role="gridcell">
+          <button type="button" data-testid="add-to-playlist-button" aria-label="${escapeHtml(`${t.addToPlaylist}: ${track.title}`)}" data-requires-login>+</button>
+        </div>
+      </div>`;
+}
+
+function renderTracklist(label: string, rows: string[]): string {
+  return `
+      <div data-testid="tracklist" role="grid" aria-label="${escapeHtml(label)}" aria-rowcount="${rows.length + 1}">
+        ${rows.join('')}
+      </div>`;
+}
+
+function renderActionBar(ctx: PageContext, extraButton = ''): string {
+  const t = strings[ctx.locale];
+  return `
+      <div data-testid="action-bar">
+        <button type="button" class="play-button" data-testid="play-button" aria-label="${escapeHtml(t.play)}" data-requires-login>▶</button>
+        ${extraButton}
+      </div>`;
+}
+
+export function renderAlbum(ctx: PageContext, album: Album): string {
+  const t = strings[ctx.locale];
+  const artist = findArtist(album.artistId);
+  const totalMinutes = Math.round(album.tracks.reduce((sum, track) => sum + track.durationSeconds, 0) / 60);
+
+  return `
+    <section data-testid="album-page">
+      <div data-testid="entity-header">
+        <img data-testid="cover-art" src="/image/${album.id}.svg" alt="${escapeHtml(album.title)}" width="232" height="232">
+        <span>${escapeHtml(t.album)}</span>
+        <h1 data-testid="entity-title">${escapeHtml(album.title)}</h1>
+        <div>
+          ${artist ? `<a data-testid="creator-link" href="${href(ctx, `/artist/${artist.id}`)}">${escapeHtml(artist.name)}</a>` : ''}
+          • <span data-testid="release-year">${album.releaseYear}</span>
+          • <span>${album.tracks.length} songs, ${totalMinutes} min</span>
+        </div>
+      </div>
+      ${renderActionBar(ctx, `<button type="button" data-testid="add-button" aria-label="${escapeHtml(t.saveToLibrary)}" data-requires-login>♡</button>`)}
+      ${renderTracklist(album.title, album.tracks.map((track, index) => renderTrackRow(ctx, { track, album }, index, false)))}
+    </section>`;
+}
+
+export function renderTrack(ctx: PageContext, track: Track, album: Album): string {
+  const t = strings[ctx.locale];
+  const artist = findArtist(album.artistId);
+
+  return `
+    <section data-testid="track-page">
+      <div data-testid="entity-header">
+        <img data-testid="cover-art" src="/image/${album.id}.svg" alt="${escapeHtml(album.title)}" width="232" height="232">
+        <span>${escapeHtml(t.song)}</span>
+        <h1 data-testid="entity-title">${escapeHtml(track.title)}</h1>
+        <div>
+          ${artist ? `<a data-testid="creator-link" href="${href(ctx, `/artist/${artist.id}`)}">${escapeHtml(artist.name)}</a>` : ''}
+          • <a data-testid="album-link" href="${href(ctx, `/album/${album.id}`)}">${escapeHtml(album.title)}</a>
+          • <span data-testid="release-year">${album.releaseYear}</span>
+          • <span data-testid="track-duration">${formatDuration(track.durationSeconds)}</span>
+        </div>
+      </div>
+      ${renderActionBar(ctx, `<button type="button" data-testid="add-button" aria-label="${escapeHtml(t.saveToLibrary)}" data-requires-login>♡</button>`)}
+    </section>`;
+}
+
+export function renderPlaylist(ctx: PageContext, playlist: Playlist): string {
+  const t = strings[ctx.locale];
+  const entries = playlist.trackIds
+    .map((trackId) => findTrack(trackId))
+    .filter((entry): entry is { track: Track; album: Album } => entry !== undefined);
+
+  return `
+    <section data-testid="playlist-page">
+      <div data-testid="entity-header">
+        <span>${escapeHtml(t.playlist)}</span>
+        <h1 data-testid="entity-title">${escapeHtml(playlist.name)}</h1>
+        <p data-testid="playlist-description">${escapeHtml(playlist.description)}</p>
+        <div><span data-testid="playlist-owner">${escapeHtml(playlist.owner)}</span> • <span>${entries.length} songs</span></div>
+      </div>
+      ${renderActionBar(ctx, `<button type="button" data-testid="add-button" aria-label="${escapeHtml(t.saveToLibrary)}" data-requires-login>♡</button>`)}
+      ${renderTracklist(playlist.name, entries.map((entry, index) => renderTrackRow(ctx, entry, index, true)))}
+    </section>`;
+}
+
+export function renderArtist(ctx: PageContext, artist: Artist): string {
+  const t = strings[ctx.locale];
+  return `
+    <section data-testid="artist-page">
+      <h1 data-testid="entity-title">${escapeHtml(artist.name)}</h1>
+      <span>${artist.monthlyListeners.toLocaleString('en-US')} ${escapeHtml(t.monthlyListeners)}</span>
+      ${renderActionBar(ctx, `<button type="button" data-testid="follow-button" data-requires-login>${escapeHtml(t.follow)}</button>`)}
+      <section aria-label="${escapeHtml(t.discography)}">
+        <h2>${escapeHtml(t.discography)}</h2>
+        ${albumsByArtist(artist.id).map((album) => renderAlbumCard(ctx, album)).join('')}
+      </section>
+    </section>`;
+}
+
+/** Stand-in for accounts.spotify.com: where the header and modal Log in / Sign up links lead. */
+export function renderAuthPage(ctx: PageContext, kind: 'login' | 'signup'): string {
+  const t = strings[ctx.locale];
+  return `
+    <section data-testid="${kind}-page">
+      <h1>${escapeHtml(kind === 'login' ? t.logIn : t.signUp)}</h1>
+      <a href="/">Spotify</a>
+    </section>`;
+}
+
+export function renderNotFound(ctx: PageContext): string {
+  const t = strings[ctx.locale];
+  return `
+    <section data-testid="not-found">
+      <h1>${escapeHtml(t.notFoundTitle)}</h1>
+      <p>${escapeHtml(t.notFoundBody)}</p>
+      <a href="${href(ctx, '/')}">Spotify</a>
+    </section>`;
+}
+
+export function renderCoverArt(album: Album): string {
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="300" height="300" viewBox="0 0 300 300">
+  <rect width="300" height="300" fill="${album.coverColor}"/>
+  <text x="150" y="160" font-family="Helvetica" font-size="18" fill="#fff" text-anchor="middle">${escapeHtml(album.title)}</text>
+</svg>`;
+}
+
+export function renderShareImage(): string {
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="1200" height="630" viewBox="0 0 1200 630">
+  <rect width="1200" height="630" fill="#121212"/>
+  <text x="600" y="340" font-family="Helvetica" font-size="96" font-weight="bold" fill="#1ed760" text-anchor="middle">Spotify</text>
+</svg>`;
+}
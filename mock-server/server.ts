@@ -0,0 +1,260 @@
+/**
+ * Behind the Test - Mock Spotify Web: HTTP server
+ *
+ * Offline stand-in for https://open.spotify.com/ covering the pages the
+ * Episode 1 journey visits: homepage, language menu, search, artist,
+ * album, track and playlist pages, plus the anonymous login modal. Deep
+ * links behave like the real site: `/intl-<lang>/` prefixes, canonical
+ * redirects and a 404 page for unknown IDs or malformed URLs. Public pages
+ * carry the real site's SEO and share metadata (see metadata.ts). Started
+ * automatically by Playwright's webServer when SPOTIFY_PROFILE=mock.
+ *
+ * Usage: npx ts-node --transpile-only mock-server/server.ts
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ */
+
+import http from 'http';
+import { artists, findAlbum, findArtist, findPlaylist, findTrack, search } from './catalog';
+import { DEFAULT_LOCALE, INTL_PATH_PREFIXES, LOCALE_COOKIE, LocaleCode, isLocaleCode, negotiateLocale, strings } from './i18n';
+import { PageMetadata, SHARE_IMAGE_PATH, albumMetadata, artistMetadata, homeMetadata, playlistMetadata, searchMetadata, trackMetadata } from './metadata';
+import {
+  PageContext,
+  renderAlbum,
+  renderArtist,
+  renderAuthPage,
+  renderCoverArt,
+  renderDocument,
+  renderHome,
+  renderNotFound,
+  renderPlaylist,
+  renderSearchResults,
+  renderShareImage,
+  renderTrack,
+} from './render';
+
+export const DEFAULT_MOCK_PORT = 3100;
+
+/** decodeURIComponent that returns null instead of throwing on malformed input like `%E0%A4%A`. */
+function safeDecode(value: string): string | null {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return null;
+  }
+}
+
+function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const pair of (header ?? '').split(';')) {
+    const [name, ...rest] = pair.trim().split('=');
+    if (name) {
+      cookies[name] = safeDecode(rest.join('=')) ?? '';
+    }
+  }
+  return cookies;
+}
+
+/** The language picked in the menu (locale cookie), else the browser's Accept-Language, else English. */
+function resolveLocale(request: http.IncomingMessage): LocaleCode {
+  const cookieLocale = parseCookies(request.headers.cookie)[LOCALE_COOKIE];
+  if (isLocaleCode(cookieLocale)) {
+    return cookieLocale;
+  }
+  return negotiateLocale(request.headers['accept-language']) ?? DEFAULT_LOCALE;
+}
+
+function redirect(response: http.ServerResponse, location: string): void {
+  response.writeHead(301, { Location: location, 'Cache-Control': 'no-store' });
+  response.end();
+}
+
+/**
+ * Where the real site sends non-canonical deep links, or null when the URL
+ * is already canonical. Query strings such as share tokens (`?si=`) survive.
+ */
+function canonicalLocation(url: URL, prefix: string, segments: string[]): string | null {
+  const query = url.search;
+  // `/` and `/intl-pt/` are the homepages; everywhere else a trailing slash is dropped
+  if (prefix && url.pathname === prefix) {
+    return `${prefix}/${query}`;
+  }
+  if (url.pathname.length > 1 && url.pathname.endsWith('/') && url.pathname !== `${prefix}/`) {
+    return `${url.pathname.replace(/\/+$/, '')}${query}`;
+  }
+  // Legacy playlist URLs: /user/<owner>/playlist/<id>
+  if (segments[0] === 'user' && segments[2] === 'playlist' && segments[3]) {
+    return `${prefix}/playlist/${encodeURIComponent(segments[3])}${query}`;
+  }
+  // Form submissions and old links: /search?q=<query>
+  if (segments.length === 1 && segments[0] === 'search' && url.searchParams.get('q')) {
+    const params = new URLSearchParams(url.searchParams);
+    const searchQuery = params.get('q')!;
+    params.delete('q');
+    const rest = params.toString();
+    return `${prefix}/search/${encodeURIComponent(searchQuery)}${rest ? `?${rest}` : ''}`;
+  }
+  return null;
+}
+
+function send(response: http.ServerResponse, status: number, contentType: string, body: string): void {
+  response.writeHead(status, {
+    'Content-Type': `${contentType}; charset=utf-8`,
+    'Cache-Control': 'no-store',
+    Vary: 'Accept-Language, Cookie',
+  });
+  response.end(body);
+}
+
+/**
+ * Sends either the full document or, when the client-side search asks for
+ * `?fragment=main`, only the markup that goes inside <main>.
+ */
+function sendPage(
+  response: http.ServerResponse,
+  url: URL,
+  ctx: PageContext,
+  title: string,
+  mainHtml: string,
+  options: { status?: number; metadata?: PageMetadata } = {},
+): void {
+  const status = options.status ?? 200;
+  if (url.searchParams.get('fragment') === 'main') {
+    send(response, status, 'text/html', mainHtml);
+    return;
+  }
+  send(response, status, 'text/html', renderDocument(ctx, title, mainHtml, options.metadata));
+}
+
+function notFound(response: http.ServerResponse, url: URL, ctx: PageContext): void {
+  const t = strings[ctx.locale];
+  sendPage(response, url, ctx, `${t.notFoundTitle} | Spotify`, renderNotFound(ctx), { status: 404 });
+}
+
+export function handleRequest(request: http.IncomingMessage, response: http.ServerResponse): void {
+  const url = new URL(request.url ?? '/', 'http://localhost');
+  const ctx: PageContext = { locale: resolveLocale(request), origin: `http://${request.headers.host ?? 'localhost'}` };
+  const rawSegments = url.pathname.split('/').filter(Boolean);
+
+  if (request.method !== 'GET' && request.method !== 'HEAD') {
+    send(response, 405, 'text/plain', 'Method Not Allowed');
+    return;
+  }
+
+  // Locale prefix: /intl-pt/album/<id> renders in Portuguese and keeps the prefix on its links
+  if (rawSegments[0]?.startsWith('intl-')) {
+    const prefixLocale = INTL_PATH_PREFIXES[rawSegments[0]];
+    if (!prefixLocale) {
+      redirect(response, `/${rawSegments.slice(1).join('/')}${url.search}`);
+      return;
+    }
+    ctx.locale = prefixLocale;
+    ctx.pathPrefix = `/${rawSegments.shift()}`;
+  }
+  const t = strings[ctx.locale];
+
+  const decoded = rawSegments.map(safeDecode);
+  if (decoded.some((segment) => segment === null)) {
+    notFound(response, url, ctx);
+    return;
+  }
+  const segments = decoded as string[];
+
+  const canonical = canonicalLocation(url, ctx.pathPrefix ?? '', segments);
+  if (canonical) {
+    redirect(response, canonical);
+    return;
+  }
+
+  if (segments.length === 0) {
+    sendPage(response, url, ctx, t.homeTitle, renderHome(ctx, artists), { metadata: homeMetadata(ctx) });
+    return;
+  }
+
+  const [section, id] = segments;
+
+  switch (section) {
+    case 'search': {
+      const query = id ?? url.searchParams.get('q') ?? '';
+      ctx.query = query;
+      const title = query ? `${t.searchLabel}: ${query} | Spotify` : `${t.searchLabel} | Spotify`;
+      sendPage(response, url, ctx, title, renderSearchResults(ctx, search(query)), { metadata: searchMetadata(ctx) });
+      return;
+    }
+    case 'album': {
+      const album = id ? findAlbum(id) : undefined;
+      if (!album) {
+        notFound(response, url, ctx);
+        return;
+      }
+      const artist = findArtist(album.artistId);
+      sendPage(response, url, ctx, `${album.title} - ${artist?.name} | Spotify`, renderAlbum(ctx, album), { metadata: albumMetadata(ctx, album) });
+      return;
+    }
+    case 'track': {
+      const entry = id ? findTrack(id) : undefined;
+      if (!entry) {
+        notFound(response, url, ctx);
+        return;
+      }
+      const artist = findArtist(entry.album.artistId);
+      sendPage(response, url, ctx, `${entry.track.title} - song by ${artist?.name} | Spotify`, renderTrack(ctx, entry.track, entry.album), {
+        metadata: trackMetadata(ctx, entry.track, entry.album),
+      });
+      return;
+    }
+    case 'playlist': {
+      const playlist = id ? findPlaylist(id) : undefined;
+      if (!playlist) {
+        notFound(response, url, ctx);
+        return;
+      }
+      sendPage(response, url, ctx, `${playlist.name} | Spotify Playlist`, renderPlaylist(ctx, playlist), { metadata: playlistMetadata(ctx, playlist) });
+      return;
+    }
+    case 'artist': {
+      const artist = id ? findArtist(id) : undefined;
+      if (!artist) {
+        notFound(response, url, ctx);
+        return;
+      }
+      sendPage(response, url, ctx, `${artist.name} | Spotify`, renderArtist(ctx, artist), { metadata: artistMetadata(ctx, artist) });
+      return;
+    }
+    case 'login':
+    case 'signup':
+      sendPage(response, url, ctx, `${section === 'login' ? t.logIn : t.signUp} | Spotify`, renderAuthPage(ctx, section));
+      return;
+    case 'image': {
+      if (url.pathname === SHARE_IMAGE_PATH) {
+        send(response, 200, 'image/svg+xml', renderShareImage());
+        return;
+      }
+      const album = id ? findAlbum(id.replace(/\.svg$/, '')) : undefined;
+      if (!album) {
+        send(response, 404, 'text/plain', 'Not Found');
+        return;
+      }
+      send(response, 200, 'image/svg+xml', renderCoverArt(album));
+      return;
+    }
+    case 'favicon.ico':
+      response.writeHead(204);
+      response.end();
+      return;
+    default:
+      notFound(response, url, ctx);
+  }
+}
+
+export function createMockSpotifyServer(): http.Server {
+  return http.createServer(handleRequest);
+}
+
+if (require.main === module) {
+  const port = Number(process.env.MOCK_SPOTIFY_PORT ?? DEFAULT_MOCK_PORT);
+  createMockSpotifyServer().listen(port, () => {
+    console.log(`🎧 Mock Spotify Web listening on http://localhost:${port}/`);
+  });
+}
@@ -1,4 +1,27 @@
-import { defineConfig, devices } from '@playwright/test';
+import { ReporterDescription, defineConfig, devices } from '@playwright/test';
+import { environment } from './tests/config/environment';
+import { assertHarFixturesRecorded } from './tests/helpers/harNetwork';
+
+/**
+ * Target switch: SPOTIFY_PROFILE picks a profile from
+ * tests/data/environments.json (live, mock, staging), validated before the
+ * run. SPOTIFY_TARGET=mock still selects the offline stand-in in mock-server/.
+ */
+const profile = environment();
+assertHarFixturesRecorded();
+const baseURL = profile.baseURL;
+const desktopViewport = { width: 1366, height: 768 };
+
+/**
+ * Locator telemetry plus flakiness (retries, soft fallbacks, history in
+ * .flakiness/, quarantine marks), locally and on CI. The JSON results feed
+ * `npm run triage`.
+ */
+const everyRunReporters: ReporterDescription[] = [
+  ['./tests/reporters/locatorTelemetryReporter.ts'],
+  ['./tests/reporters/flakinessReporter.ts'],
+  ['json', { outputFile: 'test-results/results.json' }],
+];
 
 export default defineConfig({
   testDir: './tests',
@@ -6,33 +29,73 @@ export default defineConfig({
   timeout: 60 * 1000,
   expect: {
     timeout: 5000,
+    toHaveScreenshot: {
+      animations: 'disabled',
+      caret: 'hide',
+      maxDiffPixelRatio: 0.01,
+    },
   },
+  // Visual baselines: one set per environment profile, browser project and platform
+  snapshotPathTemplate: `{testDir}/__screenshots__/${profile.name}/{projectName}/{testFilePath}/{arg}-{platform}{ext}`,
   fullyParallel: true,
   forbidOnly: !!process.env.CI,
   retries: process.env.CI ? 2 : 0,
   workers: process.env.CI ? 2 : undefined,
-  reporter: process.env.CI ? [['dot'], ['html', { outputFolder: 'playwright-report', open: 'never' }]] : [['list'], ['html', { open: 'on-failure' }]],
+  // A --reporter on the command line replaces this whole list, so the npm scripts never pass one
+  reporter: process.env.CI
+    ? [['dot'], ['html', { outputFolder: 'playwright-report', open: 'never' }], ...everyRunReporters]
+    : [['list'], ['html', { open: 'on-failure' }], ...everyRunReporters],
   use: {
     actionTimeout: 0,
     trace: 'on-first-retry',
     video: 'retain-on-failure',
     screenshot: 'only-on-failure',
     headless: true,
-    baseURL: 'https://open.spotify.com/',
+    baseURL,
     locale: 'en-US',
+    // Service workers bypass Playwright routing (HAR modes) and serve a cached shell to an anonymous session
+    serviceWorkers: 'block',
   },
+  webServer: profile.startMockServer
+    ? {
+        command: 'npx ts-node --transpile-only mock-server/server.ts',
+        url: baseURL,
+        env: { MOCK_SPOTIFY_PORT: new URL(baseURL).port },
+        reuseExistingServer: !process.env.CI,
+        timeout: 30 * 1000,
+      }
+    : undefined,
+  // Desktop projects share the 1366x768 laptop viewport; device projects keep their own emulation
   projects: [
     {
       name: 'Chromium',
-      use: { ...devices['Desktop Chrome'] },
+      use: { ...devices['Desktop Chrome'], viewport: desktopViewport },
     },
     {
       name: 'Firefox',
-      use: { ...devices['Desktop Firefox'] },
+      use: { ...devices['Desktop Firefox'], viewport: desktopViewport },
     },
     {
       name: 'WebKit',
-      use: { ...devices['Desktop Safari'] },
+      use: { ...devices['Desktop Safari'], viewport: desktopViewport },
+    },
+    {
+      name: 'Pixel 7',
+      use: { ...devices['Pixel 7'] },
+    },
+    {
+      name: 'iPhone 14',
+      use: { ...devices['iPhone 14'] },
+    },
+    {
+      name: 'iPad Pro 11',
+      use: { ...devices['iPad Pro 11'] },
+    },
+    // Browserless checks of the helpers themselves; the browser projects never match *.unit.ts
+    {
+      name: 'Unit',
+      testDir: './tests/unit',
+      testMatch: '**/*.unit.ts',
     },
   ],
 }); 
\ No newline at end of file
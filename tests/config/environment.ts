@@ -0,0 +1,106 @@
+import fs from 'fs';
+import path from 'path';
+import { ConfigValidationError, Schema, boolean, object, parse, record, string, url } from './schema';
+
+/**
+ * Behind the Test - Environment Profiles
+ *
+ * Which Spotify the suite talks to, read from tests/data/environments.json
+ * and checked before a single test starts:
+ * - live: the real open.spotify.com
+ * - mock: the offline stand-in in mock-server/, booted by Playwright
+ * - staging: a deployed pre-production build behind SPOTIFY_STAGING_URL
+ *
+ * Pick one with SPOTIFY_PROFILE. SPOTIFY_TARGET=mock keeps working and
+ * selects `mock`. playwright.config.ts, fixtures and specs all read the
+ * target from here instead of hard-coding hosts.
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ */
+
+export const ENVIRONMENTS_FILE = path.join(__dirname, '..', 'data', 'environments.json');
+
+export interface EnvironmentProfile {
+  name: string;
+  description: string;
+  /** Absolute URL with a trailing slash; every page object navigates relative to it. */
+  baseURL: string;
+  /** Playwright starts mock-server/ on the baseURL port before the run. */
+  startMockServer: boolean;
+  /** Regional and device behaviour is known exactly, so specs may assert it, not only handle it. */
+  deterministic: boolean;
+}
+
+type ProfileDefinition = Omit<EnvironmentProfile, 'name'>;
+
+function profileSchemaShape(): { [K in keyof ProfileDefinition]-?: Schema<ProfileDefinition[K]> } {
+  return {
+    description: string(),
+    baseURL: url(),
+    startMockServer: boolean(),
+    deterministic: boolean(),
+  };
+}
+
+const profileSchema = object<ProfileDefinition>(profileSchemaShape());
+
+/** As written in the file: baseURL may still hold `${VAR}` placeholders, so it is checked as a URL after expansion. */
+const environmentsSchema = object<{ profiles: Record<string, ProfileDefinition> }>({
+  profiles: record(object<ProfileDefinition>({ ...profileSchemaShape(), baseURL: string() })),
+});
+
+/** Expands `${VAR}` and `${VAR:-default}` in every string, recording variables that are not set. */
+function interpolate(value: unknown, pathInFile: string, issues: string[]): unknown {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{(\w+)(?::-([^}]*))?\}/g, (_match, variable: string, fallback?: string) => {
+      const resolved = process.env[variable] ?? fallback;
+      if (resolved === undefined) {
+        issues.push(`${pathInFile}: environment variable ${variable} is not set`);
+        return '';
+      }
+      return resolved;
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map((entry, index) => interpolate(entry, `${pathInFile}[${index}]`, issues));
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, interpolate(entry, `${pathInFile}.${key}`, issues)]));
+  }
+  return value;
+}
+
+export function selectedProfileName(): string {
+  return process.env.SPOTIFY_PROFILE ?? (process.env.SPOTIFY_TARGET === 'mock' ? 'mock' : 'live');
+}
+
+let cachedProfile: EnvironmentProfile | undefined;
+
+/** The selected profile, validated once per process. */
+export function environment(): EnvironmentProfile {
+  if (cachedProfile) {
+    return cachedProfile;
+  }
+
+  const name = selectedProfileName();
+  const source = path.relative(process.cwd(), ENVIRONMENTS_FILE);
+  const { profiles } = parse(environmentsSchema, JSON.parse(fs.readFileSync(ENVIRONMENTS_FILE, 'utf-8')), source);
+  if (!profiles[name]) {
+    throw new ConfigValidationError(source, [`profile "${name}" does not exist. Known profiles: ${Object.keys(profiles).join(', ')}`]);
+  }
+
+  // Only the selected profile is interpolated: an unset SPOTIFY_STAGING_URL must not break a mock run
+  const issues: string[] = [];
+  const resolved = interpolate(profiles[name], `$.profiles.${name}`, issues);
+  if (issues.length > 0) {
+    throw new ConfigValidationError(source, issues);
+  }
+  const profile = parse(profileSchema, resolved, `${source} (profile "${name}")`);
+  if (!profile.baseURL.endsWith('/')) {
+    throw new ConfigValidationError(source, [`$.profiles.${name}.baseURL: "${profile.baseURL}" must end with "/"`]);
+  }
+
+  cachedProfile = { name, ...profile };
+  return cachedProfile;
+}
@@ -0,0 +1,35 @@
+/**
+ * Behind the Test - Configuration
+ *
+ * Typed, validated access to the target environment and the test data:
+ * - environment(): the selected profile from tests/data/environments.json
+ * - journeyTestData(), deepLinkTestData(), languageNegotiationTestData(), albumExpectations(),
+ *   searchRelevanceCases(), seoExpectations(): data sets under tests/data
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ */
+
+export { ENVIRONMENTS_FILE, EnvironmentProfile, environment, selectedProfileName } from './environment';
+export { ConfigValidationError } from './schema';
+export {
+  ALBUM_FIXTURES_DIR,
+  AlbumExpectation,
+  DeepLinkTestData,
+  JourneyTestData,
+  LanguageNegotiationTestData,
+  SearchRelevanceCase,
+  SearchRelevanceCategory,
+  SEO_PAGE_TYPES,
+  SeoExpectations,
+  SeoPageExpectation,
+  SeoPageType,
+  albumExpectation,
+  albumExpectations,
+  deepLinkTestData,
+  findAlbumExpectation,
+  journeyTestData,
+  languageNegotiationTestData,
+  searchRelevanceCases,
+  seoExpectations,
+} from './testData';
@@ -0,0 +1,151 @@
+/**
+ * Behind the Test - Configuration Schema Checks
+ *
+ * A deliberately small validator for the JSON files under tests/data and
+ * the environment profiles. Each schema is typed against the interface it
+ * produces, so a field added to the interface but not to the schema does
+ * not compile. Validation collects every problem before throwing, so a
+ * broken data file is fixed in one pass, not one field per run.
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ */
+
+export class ConfigValidationError extends Error {
+  constructor(readonly source: string, readonly issues: string[]) {
+    super([`Invalid configuration in ${source}:`, ...issues.map((issue) => `  - ${issue}`)].join('\n'));
+    this.name = 'ConfigValidationError';
+  }
+}
+
+/** Returns the value when valid; otherwise records issues under `path` and returns it unchanged. */
+export type Schema<T> = (value: unknown, path: string, issues: string[]) => T;
+
+function describe(value: unknown): string {
+  return Array.isArray(value) ? 'an array' : value === null ? 'null' : typeof value;
+}
+
+export function string(options: { pattern?: RegExp; minLength?: number } = {}): Schema<string> {
+  return (value, path, issues) => {
+    if (typeof value !== 'string') {
+      issues.push(`${path}: expected a string, got ${describe(value)}`);
+    } else if (value.length < (options.minLength ?? 1)) {
+      issues.push(`${path}: must not be empty`);
+    } else if (options.pattern && !options.pattern.test(value)) {
+      issues.push(`${path}: "${value}" does not match ${options.pattern}`);
+    }
+    return value as string;
+  };
+}
+
+export function url(): Schema<string> {
+  return (value, path, issues) => {
+    string()(value, path, issues);
+    if (typeof value === 'string' && value) {
+      try {
+        const parsed = new URL(value);
+        if (!/^https?:$/.test(parsed.protocol)) {
+          issues.push(`${path}: "${value}" must be an http(s) URL`);
+        }
+      } catch {
+        issues.push(`${path}: "${value}" is not an absolute URL`);
+      }
+    }
+    return value as string;
+  };
+}
+
+export function number(options: { integer?: boolean; min?: number; max?: number } = {}): Schema<number> {
+  return (value, path, issues) => {
+    if (typeof value !== 'number' || Number.isNaN(value)) {
+      issues.push(`${path}: expected a number, got ${describe(value)}`);
+    } else if (options.integer && !Number.isInteger(value)) {
+      issues.push(`${path}: expected an integer, got ${value}`);
+    } else if ((options.min !== undefined && value < options.min) || (options.max !== undefined && value > options.max)) {
+      issues.push(`${path}: ${value} is outside ${options.min ?? '-∞'}..${options.max ?? '∞'}`);
+    }
+    return value as number;
+  };
+}
+
+export function boolean(): Schema<boolean> {
+  return (value, path, issues) => {
+    if (typeof value !== 'boolean') {
+      issues.push(`${path}: expected true or false, got ${describe(value)}`);
+    }
+    return value as boolean;
+  };
+}
+
+export function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  return (value, path, issues) => {
+    if (!values.includes(value as T)) {
+      issues.push(`${path}: expected one of ${values.join(', ')}, got ${JSON.stringify(value)}`);
+    }
+    return value as T;
+  };
+}
+
+export function array<T>(item: Schema<T>, options: { minLength?: number } = {}): Schema<T[]> {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push(`${path}: expected an array, got ${describe(value)}`);
+      return [];
+    }
+    if (value.length < (options.minLength ?? 0)) {
+      issues.push(`${path}: expected at least ${options.minLength} item(s), got ${value.length}`);
+    }
+    return value.map((entry, index) => item(entry, `${path}[${index}]`, issues));
+  };
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, path, issues) => (value === undefined ? undefined : schema(value, path, issues));
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return (value, path, issues) => (value === null ? null : schema(value, path, issues));
+}
+
+export function object<T>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> {
+  return (value, path, issues) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      issues.push(`${path}: expected an object, got ${describe(value)}`);
+      return value as T;
+    }
+    const record = value as Record<string, unknown>;
+    for (const key of Object.keys(record)) {
+      if (!(key in shape) && key !== '$comment') {
+        issues.push(`${path}.${key}: unknown field`);
+      }
+    }
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      shape[key](record[key], `${path}.${key}`, issues);
+    }
+    return value as T;
+  };
+}
+
+export function record<T>(item: Schema<T>): Schema<Record<string, T>> {
+  return (value, path, issues) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      issues.push(`${path}: expected an object, got ${describe(value)}`);
+      return {};
+    }
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([key]) => key !== '$comment')
+        .map(([key, entry]) => [key, item(entry, `${path}.${key}`, issues)]),
+    );
+  };
+}
+
+/** Validates `value` and throws a ConfigValidationError listing every issue. */
+export function parse<T>(schema: Schema<T>, value: unknown, source: string): T {
+  const issues: string[] = [];
+  const parsed = schema(value, '$', issues);
+  if (issues.length > 0) {
+    throw new ConfigValidationError(source, issues);
+  }
+  return parsed;
+}
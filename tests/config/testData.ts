@@ -0,0 +1,269 @@
+import fs from 'fs';
+import path from 'path';
+import { localeCatalog } from '../data/locales';
+import { array, boolean, nullable, number, object, oneOf, parse, string } from './schema';
+
+/**
+ * Behind the Test - Test Data Sets
+ *
+ * Every search term, album and expectation the specs act on, loaded from
+ * tests/data and schema-checked on first use. A typo in a data file fails
+ * with the file, the field and what was expected, before any browser
+ * opens - not as a confusing assertion halfway through a journey.
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ */
+
+const DATA_DIR = path.join(__dirname, '..', 'data');
+
+export const ALBUM_FIXTURES_DIR = path.join(DATA_DIR, 'albums');
+
+export interface JourneyTestData {
+  /** What the user types in the search box. */
+  searchQuery: string;
+  /** Artist the search must rank first. */
+  expectedTopArtist: string;
+  /** Album opened from the results; must have a fixture in tests/data/albums. */
+  albumTitle: string;
+}
+
+export interface DeepLinkTestData {
+  track: { id: string; title: string };
+  playlist: { id: string; name: string };
+  /** Locale path prefixes (`/intl-pt/...`) and the catalog locale each one must render in. */
+  localePrefixes: { prefix: string; locale: string }[];
+  /** Well-formed ID that matches no entity, for 404 handling. */
+  unknownId: string;
+}
+
+export interface LanguageNegotiationTestData {
+  /** Catalog locale picked from the language menu; must not be English, the reset target. */
+  selectedLocale: string;
+  /** Browser locale (Accept-Language) and the catalog locale it must render in while nothing is picked. */
+  browserLocales: { browserLocale: string; expectedLocale: string }[];
+}
+
+export interface AlbumExpectation {
+  id: string;
+  title: string;
+  artist: { id: string; name: string };
+  releaseYear: number;
+  tracks: { title: string; duration: string }[];
+}
+
+export const SEARCH_RELEVANCE_CATEGORIES = ['exact', 'diacritics', 'misspelling', 'non-latin'] as const;
+
+export type SearchRelevanceCategory = (typeof SEARCH_RELEVANCE_CATEGORIES)[number];
+
+export interface SearchRelevanceCase {
+  id: string;
+  query: string;
+  category: SearchRelevanceCategory;
+  expectedTopArtist: string;
+  expectedAlbums: { topN: number; titles: string[] };
+  expectedSectionOrder: string[];
+}
+
+export const SEO_PAGE_TYPES = ['homepage', 'search', 'artist', 'album'] as const;
+
+export type SeoPageType = (typeof SEO_PAGE_TYPES)[number];
+
+export interface SeoPageExpectation {
+  /** Text every <title> of this page type contains, besides the entity name. */
+  titleIncludes: string;
+  /** false: the page must carry a noindex robots directive. */
+  indexable: boolean;
+  ogType: string;
+  twitterCard: string;
+  /** Requires an hreflang alternate for every catalog locale plus x-default. */
+  hreflang: boolean;
+  jsonLd: { type: string; requiredProperties: string[] } | null;
+}
+
+export interface SeoExpectations {
+  description: { minLength: number; maxLength: number };
+  requiredOpenGraph: string[];
+  requiredTwitter: string[];
+  pageTypes: Record<SeoPageType, SeoPageExpectation>;
+}
+
+const spotifyId = () => string({ pattern: /^[A-Za-z0-9]{22}$/ });
+
+interface TestDataFile {
+  journey: JourneyTestData;
+  deepLinks: DeepLinkTestData;
+  languageNegotiation: LanguageNegotiationTestData;
+}
+
+const localeCode = () => oneOf(localeCatalog.map(({ code }) => code));
+
+const testDataSchema = object<TestDataFile>({
+  journey: object<JourneyTestData>({
+    searchQuery: string(),
+    expectedTopArtist: string(),
+    albumTitle: string(),
+  }),
+  deepLinks: object<DeepLinkTestData>({
+    track: object<DeepLinkTestData['track']>({ id: spotifyId(), title: string() }),
+    playlist: object<DeepLinkTestData['playlist']>({ id: spotifyId(), name: string() }),
+    localePrefixes: array(
+      object<DeepLinkTestData['localePrefixes'][number]>({
+        prefix: string({ pattern: /^intl-[a-z]{2}$/ }),
+        locale: localeCode(),
+      }),
+      { minLength: 1 },
+    ),
+    unknownId: spotifyId(),
+  }),
+  languageNegotiation: object<LanguageNegotiationTestData>({
+    selectedLocale: oneOf(localeCatalog.map(({ code }) => code).filter((code) => code !== 'en')),
+    browserLocales: array(
+      object<LanguageNegotiationTestData['browserLocales'][number]>({
+        browserLocale: string({ pattern: /^[a-z]{2}(-[A-Z]{2})?$/ }),
+        expectedLocale: localeCode(),
+      }),
+      { minLength: 1 },
+    ),
+  }),
+});
+
+const albumSchema = object<AlbumExpectation>({
+  id: spotifyId(),
+  title: string(),
+  artist: object<AlbumExpectation['artist']>({ id: spotifyId(), name: string() }),
+  releaseYear: number({ integer: true, min: 1900, max: 2100 }),
+  tracks: array(
+    object<AlbumExpectation['tracks'][number]>({ title: string(), duration: string({ pattern: /^\d{1,2}:\d{2}(:\d{2})?$/ }) }),
+    { minLength: 1 },
+  ),
+});
+
+const searchRelevanceSchema = object<{ cases: SearchRelevanceCase[] }>({
+  cases: array(
+    object<SearchRelevanceCase>({
+      id: string({ pattern: /^[a-z0-9-]+$/ }),
+      query: string(),
+      category: oneOf(SEARCH_RELEVANCE_CATEGORIES),
+      expectedTopArtist: string(),
+      expectedAlbums: object<SearchRelevanceCase['expectedAlbums']>({
+        topN: number({ integer: true, min: 1 }),
+        titles: array(string()),
+      }),
+      expectedSectionOrder: array(string(), { minLength: 1 }),
+    }),
+    { minLength: 1 },
+  ),
+});
+
+const seoPageSchema = object<SeoPageExpectation>({
+  titleIncludes: string(),
+  indexable: boolean(),
+  ogType: string(),
+  twitterCard: oneOf(['summary', 'summary_large_image', 'app', 'player']),
+  hreflang: boolean(),
+  jsonLd: nullable(
+    object<NonNullable<SeoPageExpectation['jsonLd']>>({
+      type: string({ pattern: /^[A-Z][A-Za-z]+$/ }),
+      requiredProperties: array(string(), { minLength: 1 }),
+    }),
+  ),
+});
+
+const seoSchema = object<SeoExpectations>({
+  description: object<SeoExpectations['description']>({
+    minLength: number({ integer: true, min: 1 }),
+    maxLength: number({ integer: true, min: 1 }),
+  }),
+  requiredOpenGraph: array(string({ pattern: /^og:[a-z_:]+$/ }), { minLength: 1 }),
+  requiredTwitter: array(string({ pattern: /^twitter:[a-z_:]+$/ }), { minLength: 1 }),
+  pageTypes: object<SeoExpectations['pageTypes']>({
+    homepage: seoPageSchema,
+    search: seoPageSchema,
+    artist: seoPageSchema,
+    album: seoPageSchema,
+  }),
+});
+
+function readJson(file: string): unknown {
+  return JSON.parse(fs.readFileSync(file, 'utf-8'));
+}
+
+function source(file: string): string {
+  return path.relative(process.cwd(), file);
+}
+
+function unique<T>(items: T[], key: (item: T) => string, what: string, file: string): T[] {
+  const seen = new Set<string>();
+  for (const item of items) {
+    if (seen.has(key(item))) {
+      throw new Error(`Duplicate ${what} "${key(item)}" in ${source(file)}`);
+    }
+    seen.add(key(item));
+  }
+  return items;
+}
+
+let testData: TestDataFile | undefined;
+let albums: AlbumExpectation[] | undefined;
+let relevanceCases: SearchRelevanceCase[] | undefined;
+let seo: SeoExpectations | undefined;
+
+function testDataFile(): TestDataFile {
+  const file = path.join(DATA_DIR, 'test-data.json');
+  testData ??= parse(testDataSchema, readJson(file), source(file));
+  return testData;
+}
+
+export function journeyTestData(): JourneyTestData {
+  return testDataFile().journey;
+}
+
+export function deepLinkTestData(): DeepLinkTestData {
+  return testDataFile().deepLinks;
+}
+
+export function languageNegotiationTestData(): LanguageNegotiationTestData {
+  return testDataFile().languageNegotiation;
+}
+
+/** One expectation per file in tests/data/albums, sorted by file name. */
+export function albumExpectations(): AlbumExpectation[] {
+  albums ??= unique(
+    fs
+      .readdirSync(ALBUM_FIXTURES_DIR)
+      .filter((file) => file.endsWith('.json'))
+      .sort()
+      .map((file) => path.join(ALBUM_FIXTURES_DIR, file))
+      .map((file) => parse(albumSchema, readJson(file), source(file))),
+    (album) => album.id,
+    'album id',
+    ALBUM_FIXTURES_DIR,
+  );
+  return albums;
+}
+
+export function findAlbumExpectation(title: string): AlbumExpectation | undefined {
+  return albumExpectations().find((album) => album.title === title);
+}
+
+/** Like findAlbumExpectation(), for data the journey cannot run without. */
+export function albumExpectation(title: string): AlbumExpectation {
+  const album = findAlbumExpectation(title);
+  if (!album) {
+    throw new Error(`No album fixture titled "${title}" in ${source(ALBUM_FIXTURES_DIR)}`);
+  }
+  return album;
+}
+
+export function searchRelevanceCases(): SearchRelevanceCase[] {
+  const file = path.join(DATA_DIR, 'search-relevance.json');
+  relevanceCases ??= unique(parse(searchRelevanceSchema, readJson(file), source(file)).cases, (entry) => entry.id, 'case id', file);
+  return relevanceCases;
+}
+
+export function seoExpectations(): SeoExpectations {
+  const file = path.join(DATA_DIR, 'seo-metadata.json');
+  seo ??= parse(seoSchema, readJson(file), source(file));
+  return seo;
+}
@@ -0,0 +1,156 @@
+/**
+ * Behind the Test - Locale Catalog
+ *
+ * Expected interface copy for every language the unauthenticated journey
+ * covers. Each entry is keyed by the Spotify language code; the language
+ * menu option for it is `data-testid="language-option-<code>"`.
+ *
+ * Adding coverage for a new language is a data change: append an entry
+ * here and the journey runs once more.
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ */
+
+export interface LocaleExpectations {
+  /** Spotify language code, used in the `language-option-<code>` test id. */
+  code: string;
+  /** Text of the language option and of the language button once selected. */
+  languageName: string;
+  searchPlaceholder: string;
+  /** Heading of the Albums section in search results. */
+  albumsSectionHeading: string;
+  loginButtonLabels: {
+    logIn: string;
+    signUp: string;
+  };
+  /** Headline of the auth modal shown when an anonymous user presses play. */
+  authModalHeadline: string;
+  /** Looser copy that still proves the modal is up in this language. */
+  authModalFallbackCopy: string[];
+  /** Sign-up call to action inside the auth modal. */
+  authModalSignUp: string;
+  /** Accessible name of the auth modal's close button. */
+  closeButtonLabel: string;
+  /** Accessible name of the album play button. */
+  playButtonLabel: string;
+  /** Accessible name of a track row's play button; {track} and {artist} stand for the row's values. */
+  playTrackLabel: string;
+  /** Headings of the page an unknown ID or a malformed URL renders; any one proves it. */
+  notFoundHeadings: string[];
+}
+
+export const localeCatalog: LocaleExpectations[] = [
+  {
+    code: 'en',
+    languageName: 'English',
+    searchPlaceholder: 'What do you want to listen to?',
+    albumsSectionHeading: 'Albums',
+    loginButtonLabels: { logIn: 'Log in', signUp: 'Sign up' },
+    authModalHeadline: 'Start listening with a free Spotify account',
+    authModalFallbackCopy: ['free Spotify account', 'Sign up free', 'Start listening'],
+    authModalSignUp: 'Sign up free',
+    closeButtonLabel: 'Close',
+    playButtonLabel: 'Play',
+    playTrackLabel: 'Play {track} by {artist}',
+    notFoundHeadings: ['Page not found', "Couldn't find"],
+  },
+  {
+    code: 'pt-BR',
+    languageName: 'Português do Brasil',
+    searchPlaceholder: 'O que você quer ouvir?',
+    albumsSectionHeading: 'Álbuns',
+    loginButtonLabels: { logIn: 'Entrar', signUp: 'Inscrever-se' },
+    authModalHeadline: 'Escute com uma conta gratuita do Spotify',
+    authModalFallbackCopy: ['conta gratuita', 'Spotify gratuito', 'Escute', 'Inscrever-se', 'Entrar', 'conta do Spotify'],
+    authModalSignUp: 'Inscreva-se grátis',
+    closeButtonLabel: 'Fechar',
+    playButtonLabel: 'Tocar',
+    playTrackLabel: 'Tocar {track} de {artist}',
+    notFoundHeadings: ['Página não encontrada'],
+  },
+  {
+    code: 'es',
+    languageName: 'Español',
+    searchPlaceholder: '¿Qué quieres escuchar?',
+    albumsSectionHeading: 'Álbumes',
+    loginButtonLabels: { logIn: 'Iniciar sesión', signUp: 'Registrarte' },
+    authModalHeadline: 'Empieza a escuchar con una cuenta gratis de Spotify',
+    authModalFallbackCopy: ['cuenta gratis', 'Regístrate gratis', 'Empieza a escuchar'],
+    authModalSignUp: 'Regístrate gratis',
+    closeButtonLabel: 'Cerrar',
+    playButtonLabel: 'Reproducir',
+    playTrackLabel: 'Reproducir {track} de {artist}',
+    notFoundHeadings: ['Página no encontrada'],
+  },
+  {
+    code: 'de',
+    languageName: 'Deutsch',
+    searchPlaceholder: 'Was möchtest du hören?',
+    albumsSectionHeading: 'Alben',
+    loginButtonLabels: { logIn: 'Anmelden', signUp: 'Registrieren' },
+    authModalHeadline: 'Hör mit einem kostenlosen Spotify-Konto',
+    authModalFallbackCopy: ['kostenlosen Spotify-Konto', 'Kostenlos registrieren'],
+    authModalSignUp: 'Kostenlos registrieren',
+    closeButtonLabel: 'Schließen',
+    playButtonLabel: 'Abspielen',
+    playTrackLabel: '{track} von {artist} abspielen',
+    notFoundHeadings: ['Seite nicht gefunden'],
+  },
+  {
+    code: 'ja',
+    languageName: '日本語',
+    searchPlaceholder: '何を聴きたいですか？',
+    albumsSectionHeading: 'アルバム',
+    loginButtonLabels: { logIn: 'ログインする', signUp: '登録する' },
+    authModalHeadline: 'Spotifyの無料アカウントで聴く',
+    authModalFallbackCopy: ['無料アカウント', '無料で登録する'],
+    authModalSignUp: '無料で登録する',
+    closeButtonLabel: '閉じる',
+    playButtonLabel: '再生する',
+    playTrackLabel: '{artist}の{track}を再生する',
+    notFoundHeadings: ['ページが見つかりません'],
+  },
+];
+
+export function getLocale(code: string): LocaleExpectations {
+  const locale = localeCatalog.find((entry) => entry.code === code);
+  if (!locale) {
+    throw new Error(`Locale "${code}" is not in the catalog. Known locales: ${localeCatalog.map((entry) => entry.code).join(', ')}`);
+  }
+  return locale;
+}
+
+/**
+ * Catalog entry for a BCP 47 language tag such as `<html lang>`: the exact
+ * code first, then the primary language (`en-US` → `en`, `pt` → `pt-BR`).
+ */
+export function localeForLanguageTag(tag: string): LocaleExpectations {
+  const normalized = tag.trim().toLowerCase();
+  const primary = normalized.split('-')[0];
+  const locale =
+    localeCatalog.find((entry) => entry.code.toLowerCase() === normalized) ??
+    localeCatalog.find((entry) => entry.code.toLowerCase().split('-')[0] === primary);
+  if (!locale) {
+    throw new Error(`No catalog locale for language tag "${tag}". Known locales: ${localeCatalog.map((entry) => entry.code).join(', ')}`);
+  }
+  return locale;
+}
+
+/**
+ * One catalog label in every language, as a case-insensitive pattern. Page
+ * objects do not know which language is active, so they match any of them.
+ */
+export function anyLocaleLabel(labels: (locale: LocaleExpectations) => string | string[]): RegExp {
+  const alternatives = localeCatalog.flatMap(labels).map((label) => label.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp([...new Set(alternatives)].join('|'), 'i');
+}
+
+/**
+ * Locales the journey runs for: all of them, or the comma separated subset
+ * in SPOTIFY_LOCALES (e.g. SPOTIFY_LOCALES=pt-BR,ja).
+ */
+export function journeyLocales(): LocaleExpectations[] {
+  const requested = process.env.SPOTIFY_LOCALES?.split(',').map((code) => code.trim()).filter(Boolean);
+  return requested?.length ? requested.map(getLocale) : localeCatalog;
+}
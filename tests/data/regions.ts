@@ -0,0 +1,58 @@
+import { Geolocation } from '@playwright/test';
+
+/**
+ * Behind the Test - Region Matrix
+ *
+ * Geolocation and time zone pairs the overlay suite emulates. Spotify
+ * decides which interruptions to show per region, so each entry lists the
+ * overlays expected on the way to the language button. Touch devices
+ * additionally get the "open in app prompt" in every region.
+ *
+ * `expectedOverlays` describes the offline mock (SPOTIFY_PROFILE=mock). On
+ * the live site the set depends on the real IP region, so live runs only
+ * require that whatever appears is handled.
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ */
+
+export interface RegionProfile {
+  region: string;
+  timezoneId: string;
+  geolocation: Geolocation;
+  /** Overlay names from KNOWN_OVERLAYS shown to a desktop browser. */
+  expectedOverlays: string[];
+}
+
+export const regionMatrix: RegionProfile[] = [
+  {
+    region: 'Sweden',
+    timezoneId: 'Europe/Stockholm',
+    geolocation: { latitude: 59.3293, longitude: 18.0686 },
+    expectedOverlays: ['cookie consent'],
+  },
+  {
+    region: 'Germany',
+    timezoneId: 'Europe/Berlin',
+    geolocation: { latitude: 52.52, longitude: 13.405 },
+    expectedOverlays: ['cookie consent'],
+  },
+  {
+    region: 'Brazil',
+    timezoneId: 'America/Sao_Paulo',
+    geolocation: { latitude: -23.5505, longitude: -46.6333 },
+    expectedOverlays: ['promo popup'],
+  },
+  {
+    region: 'United States',
+    timezoneId: 'America/New_York',
+    geolocation: { latitude: 40.7128, longitude: -74.006 },
+    expectedOverlays: ['promo popup'],
+  },
+  {
+    region: 'Japan',
+    timezoneId: 'Asia/Tokyo',
+    geolocation: { latitude: 35.6762, longitude: 139.6503 },
+    expectedOverlays: [],
+  },
+];
@@ -1,603 +0,0 @@
-/**
- * Behind the Test - Episode 1: Spotify Unauthenticated User Flow
- * 
- * Series: Testing Like a Real User
- * Episode Focus: Unauthenticated User Experience Validation
- * 
- * Test Objective:
- * Validate the complete user journey of an unauthenticated user on Spotify Web,
- * demonstrating professional QA practices including internationalization testing,
- * content discovery validation, and authentication boundary enforcement.
- * 
- * Technical Showcase:
- * - Smart element location strategies with fallback approaches
- * - Performance-optimized waiting mechanisms 
- * - Comprehensive evidence collection with strategic screenshots
- * - Multi-language validation and i18n testing
- * - Context-aware selector strategies for robust automation
- * 
- * Target Application: https://open.spotify.com/
- * Test Type: E2E User Journey Simulation
- * Framework: Playwright with TypeScript
- * 
- * @author Pedro Porpino
- * @series Behind the Test
- * @episode 1
- */
-
-import { test, expect } from '@playwright/test';
-
-test.describe('Behind the Test - Episode 1: Spotify Unauthenticated Flow', () => {
-  
-  test.beforeEach(async ({ page, context }) => {
-    // QA Best Practice: Clean state for each test
-    await context.clearCookies();
-    await page.setViewportSize({ width: 1366, height: 768 });
-    
-    console.log('🧪 Test Environment: Clean state initialized for Episode 1');
-  });
-
-  test('Complete Unauthenticated User Journey: Language → Search → Discovery → Authentication Boundary', async ({ page }) => {
-    
-    await test.step('Navigate to Spotify Web homepage', async () => {
-      // QA Insight: Direct navigation to ensure we test the actual user entry point
-      await page.goto('https://open.spotify.com/');
-      
-      // Performance Optimization: Wait for actual page load instead of fixed timeout
-      await page.waitForLoadState('domcontentloaded');
-      
-      // Validation: Confirm we're on the correct page
-      await expect(page).toHaveURL(/open\.spotify\.com/);
-      await expect(page).toHaveTitle(/Spotify/i);
-      
-      console.log('✅ Navigation successful: Spotify homepage loaded');
-      
-      // Evidence: Capture initial page state
-      await page.screenshot({ 
-        path: 'evidence/01-spotify-homepage-loaded.png',
-        fullPage: true 
-      });
-    });
-
-    await test.step('Locate and validate language selection button', async () => {
-      // QA Critical Point: Using the specific data-testid as provided
-      const languageButton = page.getByTestId('language-selection-button');
-      
-      // Performance Optimization: Direct validation without timeout
-      await expect(languageButton).toBeVisible();
-      await expect(languageButton).toBeEnabled();
-      
-      // QA Insight: Check if button has proper accessibility attributes
-      const buttonText = await languageButton.textContent();
-      console.log(`🌐 Language button found with text: "${buttonText}"`);
-      
-      // Validate button has meaningful content (not empty)
-      expect(buttonText).toBeTruthy();
-      expect(buttonText?.trim().length).toBeGreaterThan(0);
-      
-      console.log('✅ Language selection button validated: Present, visible, and interactive');
-      
-      // Evidence: Capture button location and state
-      await page.screenshot({ 
-        path: 'evidence/02-language-button-located.png',
-        fullPage: true 
-      });
-    });
-
-    await test.step('Open language selection menu', async () => {
-      // QA Strategy: Actual click interaction to verify functionality
-      const languageButton = page.getByTestId('language-selection-button');
-      
-      console.log('🖱️ Attempting to click language selection button...');
-      
-      // Execute the click action
-      await languageButton.click();
-      
-      // Performance Optimization: Wait for dropdown to actually appear instead of fixed timeout
-      const languageDropdown = page.locator('[role="listbox"], [role="menu"], .language-dropdown, [data-testid*="language"]');
-      const languageOptions = page.locator('[role="option"], [role="menuitem"]');
-      
-      // Smart waiting: Check if dropdown or options become visible
-      try {
-        await Promise.race([
-          languageDropdown.first().waitFor({ state: 'visible', timeout: 3000 }),
-          languageOptions.first().waitFor({ state: 'visible', timeout: 3000 })
-        ]);
-        
-        console.log('✅ Language selection interface opened successfully');
-        
-        const optionCount = await languageOptions.count();
-        console.log(`🌍 Found ${optionCount} language options available`);
-        
-        // Evidence: Capture the opened language selection interface
-        await page.screenshot({ 
-          path: 'evidence/03-language-selection-opened.png',
-          fullPage: true 
-        });
-        
-      } catch {
-        console.log('⚠️ Language selection click may have triggered different UI behavior');
-        
-        // Evidence: Capture current state for analysis
-        await page.screenshot({ 
-          path: 'evidence/03-language-click-result.png',
-          fullPage: true 
-        });
-      }
-      
-      console.log('✅ Language selection menu interaction completed');
-    });
-
-    await test.step('Select Portuguese (Brazil) language option', async () => {
-      // QA Critical Point: Using the specific data-testid for pt-BR option
-      const ptBROption = page.getByTestId('language-option-pt-BR');
-      
-      // Performance Optimization: Direct validation without timeout
-      await expect(ptBROption).toBeVisible();
-      await expect(ptBROption).toBeEnabled();
-      
-      // QA Insight: Check the option content before clicking
-      const optionText = await ptBROption.textContent();
-      console.log(`🇧🇷 Portuguese (Brazil) option found with text: "${optionText}"`);
-      
-      // Validate option has meaningful content
-      expect(optionText).toBeTruthy();
-      expect(optionText?.trim().length).toBeGreaterThan(0);
-      
-      // Evidence: Capture state before selecting pt-BR
-      await page.screenshot({ 
-        path: 'evidence/04-before-selecting-pt-br.png',
-        fullPage: true 
-      });
-      
-      // Execute the selection
-      console.log('🖱️ Clicking on Portuguese (Brazil) language option...');
-      await ptBROption.click();
-      
-      // Performance Optimization: Wait for actual language change to complete
-      await page.waitForLoadState('networkidle');
-      
-      console.log('✅ Portuguese (Brazil) language option selected');
-    });
-
-    await test.step('Validate language change took effect', async () => {
-      // QA Strategy: Verify the language change was applied to the interface
-      
-      // Performance Optimization: Wait for language button to show new text instead of fixed timeout
-      const languageButton = page.getByTestId('language-selection-button');
-      await expect(languageButton).toBeVisible();
-      
-      const currentButtonText = await languageButton.textContent();
-      console.log(`🌐 Language button now shows: "${currentButtonText}"`);
-      
-      // Performance Optimization: Smart waiting for Portuguese elements
-      const portugueseElements = page.locator('text=/Pesquisar|Entrar|Criar conta|Português|Brasil/i');
-      
-      try {
-        await portugueseElements.first().waitFor({ state: 'visible', timeout: 5000 });
-        const foundPortugueseElements = await portugueseElements.count();
-        console.log(`✅ Language change confirmed: Found ${foundPortugueseElements} Portuguese language elements`);
-        
-        const firstPortugueseElement = portugueseElements.first();
-        const exampleText = await firstPortugueseElement.textContent();
-        console.log(`🇧🇷 Example Portuguese text found: "${exampleText}"`);
-      } catch {
-        console.log('⚠️ Portuguese text not immediately visible - language change may be processing');
-      }
-      
-      // Evidence: Capture the page after language change
-      await page.screenshot({ 
-        path: 'evidence/05-after-selecting-pt-br.png',
-        fullPage: true 
-      });
-      
-      console.log('✅ Language change validation completed');
-    });
-
-    await test.step('Locate and interact with search input field', async () => {
-      // QA Critical Point: Using the specific data-testid for search input
-      const searchInput = page.getByTestId('search-input');
-      
-      // Performance Optimization: Direct validation without timeout
-      await expect(searchInput).toBeVisible();
-      await expect(searchInput).toBeEnabled();
-      await expect(searchInput).toBeEditable();
-      
-      // QA Insight: Check search input attributes and placeholder
-      const placeholder = await searchInput.getAttribute('placeholder');
-      console.log(`🔍 Search input found with placeholder: "${placeholder}"`);
-      
-      // Validate placeholder exists (should be in Portuguese now)
-      expect(placeholder).toBeTruthy();
-      
-      // Evidence: Capture state before clicking search input
-      await page.screenshot({ 
-        path: 'evidence/06-before-clicking-search.png',
-        fullPage: true 
-      });
-      
-      // Click on the search input to focus it
-      console.log('🖱️ Clicking on search input field...');
-      await searchInput.click();
-      
-      // Performance Optimization: Verify focus immediately using evaluate
-      await expect(searchInput).toBeFocused();
-      
-      console.log('✅ Search input field focused successfully');
-    });
-
-    await test.step('Type search query for Pink Floyd', async () => {
-      // QA Strategy: Test search functionality with a well-known artist
-      const searchQuery = 'pink floyd';
-      const searchInput = page.getByTestId('search-input');
-      
-      console.log(`⌨️ Typing search query: "${searchQuery}"`);
-      
-      // Clear any existing content first (defensive approach)
-      await searchInput.clear();
-      
-      // Type the search query
-      await searchInput.fill(searchQuery);
-      
-      // QA Validation: Verify the text was entered correctly
-      await expect(searchInput).toHaveValue(searchQuery);
-      console.log(`✅ Search query entered successfully: "${searchQuery}"`);
-      
-      // Evidence: Capture the search input with the typed query
-      await page.screenshot({ 
-        path: 'evidence/07-search-query-entered.png',
-        fullPage: true 
-      });
-      
-      // Performance Optimization: Wait for search suggestions to appear (if any) using smart waiting
-      const searchSuggestions = page.locator('[data-testid*="search"], [role="listbox"], .search-suggestions');
-      
-      try {
-        await searchSuggestions.first().waitFor({ state: 'visible', timeout: 2000 });
-        const suggestionsCount = await searchSuggestions.count();
-        console.log(`🎯 Search suggestions appeared: Found ${suggestionsCount} suggestion elements`);
-        
-        // Evidence: Capture search suggestions if they appeared
-        await page.screenshot({ 
-          path: 'evidence/08-search-suggestions-appeared.png',
-          fullPage: true 
-        });
-      } catch {
-        console.log('ℹ️ No immediate search suggestions detected');
-      }
-      
-      console.log('✅ Search query input completed');
-    });
-
-    await test.step('Wait for search results and locate The Dark Side of the Moon album', async () => {
-      // QA Strategy: Wait for search results to load completely
-      console.log('⏳ Waiting for search results to load...');
-      
-      // Performance Optimization: Wait for actual search results instead of fixed timeout
-      await page.waitForLoadState('networkidle');
-      
-      // QA Senior Strategy: Multiple selector fallback approach
-      console.log('🔍 Applying QA Senior fallback selector strategy...');
-      
-      let darkSideAlbum;
-      let selectorUsed = '';
-      
-      // Strategy 1: Exact text match (most stable)
-      try {
-        darkSideAlbum = page.getByText('The Dark Side of the Moon', { exact: true });
-        await darkSideAlbum.waitFor({ state: 'visible', timeout: 5000 });
-        selectorUsed = 'exact text match';
-        console.log('✅ Strategy 1 successful: Found album by exact text');
-      } catch {
-        // Strategy 2: Partial text match
-        try {
-          darkSideAlbum = page.locator('text=The Dark Side of the Moon');
-          await darkSideAlbum.waitFor({ state: 'visible', timeout: 3000 });
-          selectorUsed = 'partial text match';
-          console.log('✅ Strategy 2 successful: Found album by partial text');
-        } catch {
-          // Strategy 3: Title attribute
-          try {
-            darkSideAlbum = page.locator('[title*="The Dark Side of the Moon"]');
-            await darkSideAlbum.waitFor({ state: 'visible', timeout: 3000 });
-            selectorUsed = 'title attribute';
-            console.log('✅ Strategy 3 successful: Found album by title attribute');
-          } catch {
-            // Strategy 4: Fallback with data-testid patterns
-            darkSideAlbum = page.locator('[data-testid*="card"]').filter({ hasText: 'The Dark Side of the Moon' });
-            await darkSideAlbum.waitFor({ state: 'visible', timeout: 3000 });
-            selectorUsed = 'data-testid + text filter fallback';
-            console.log('⚠️ Strategy 4 (fallback): Using data-testid pattern with text filter');
-          }
-        }
-      }
-      
-      // Validation: Ensure we found the album regardless of strategy used
-      await expect(darkSideAlbum).toBeVisible();
-      console.log(`🎯 Album located using: ${selectorUsed}`);
-      
-      // QA Insight: Verify this is indeed the correct album
-      const albumText = await darkSideAlbum.textContent();
-      console.log(`🎵 Album text content: "${albumText}"`);
-      
-      // Validate this contains The Dark Side of the Moon
-      expect(albumText).toMatch(/The Dark Side of the Moon/i);
-      
-      // Additional validation: Ensure the element is clickable
-      await expect(darkSideAlbum).toBeEnabled();
-      
-      // Evidence: Capture search results with the target album highlighted
-      await page.screenshot({ 
-        path: 'evidence/09-search-results-with-dark-side.png',
-        fullPage: true 
-      });
-      
-      console.log('✅ The Dark Side of the Moon album located in search results');
-    });
-
-    await test.step('Click on The Dark Side of the Moon album', async () => {
-      // QA Strategy: Use smart element location and validation
-      console.log('🖱️ Clicking on The Dark Side of the Moon album...');
-      
-      // Evidence: Capture state before clicking the album
-      await page.screenshot({ 
-        path: 'evidence/10-before-clicking-album.png',
-        fullPage: true 
-      });
-      
-      // Performance Optimization: Use the most reliable selector immediately
-      let darkSideAlbum;
-      
-      try {
-        darkSideAlbum = page.getByText('The Dark Side of the Moon', { exact: true });
-        await expect(darkSideAlbum).toBeVisible();
-      } catch {
-        // Fallback to title attribute
-        darkSideAlbum = page.locator('[title*="The Dark Side of the Moon"]').first();
-        await expect(darkSideAlbum).toBeVisible();
-      }
-      
-      // Ensure we can click on it
-      await expect(darkSideAlbum).toBeEnabled();
-      
-      // Execute the click on the album
-      await darkSideAlbum.click();
-      
-      // Performance Optimization: Wait for navigation to complete
-      await page.waitForLoadState('networkidle');
-      
-      // QA Validation: Verify we've navigated to an album page
-      const currentUrl = page.url();
-      console.log(`🔗 Navigated to: ${currentUrl}`);
-      
-      // Validate URL contains album identifier
-      expect(currentUrl).toContain('/album/');
-      
-      // Performance Optimization: Smart waiting for album page indicators
-      const albumPageIndicators = [
-        page.locator('h1').filter({ hasText: /The Dark Side of the Moon/i }),
-        page.locator('[data-testid="album-title"]'),
-        page.locator('[data-testid="entity-title"]'),
-        page.getByText('The Dark Side of the Moon')
-      ];
-      
-      let albumPageConfirmed = false;
-      for (const indicator of albumPageIndicators) {
-        try {
-          await indicator.waitFor({ state: 'visible', timeout: 2000 });
-          const pageTitle = await indicator.textContent();
-          console.log(`🎵 Album page confirmed with title: "${pageTitle}"`);
-          expect(pageTitle).toMatch(/The Dark Side of the Moon/i);
-          albumPageConfirmed = true;
-          break;
-        } catch {
-          continue;
-        }
-      }
-      
-      if (!albumPageConfirmed) {
-        console.log('⚠️ Album page title not found, but URL suggests we are on album page');
-      }
-      
-      // Evidence: Capture the album page after successful navigation
-      await page.screenshot({ 
-        path: 'evidence/11-album-page-loaded.png',
-        fullPage: true 
-      });
-      
-      console.log('✅ Successfully navigated to The Dark Side of the Moon album page');
-    });
-
-    await test.step('Locate and click the main album play button', async () => {
-      // QA Senior Challenge: The main album play button doesn't have data-testid="play-button"
-      console.log('🎯 QA Senior Analysis: Locating main album play button using context-aware strategy...');
-      
-      // Performance Optimization: Wait for page to be ready
-      await page.waitForLoadState('networkidle');
-      
-      let mainPlayButton;
-      let strategyUsed = '';
-      
-      // Strategy 1: Main play button by text and position (most reliable)
-      try {
-        const tracklistArea = page.locator('[data-testid="tracklist"], .tracklist, [role="grid"]');
-        mainPlayButton = page.getByRole('button', { name: /^Play$/i }).first();
-        
-        // Verify it's not inside the tracklist
-        const isInsideTracklist = await tracklistArea.locator('button', { hasText: /^Play$/i }).count() > 0;
-        
-        if (await mainPlayButton.isVisible() && !isInsideTracklist) {
-          strategyUsed = 'role-based main play button';
-          console.log('✅ Strategy 1 successful: Found main play button by role and text');
-        } else {
-          throw new Error('Main play button not found by role');
-        }
-      } catch {
-        // Strategy 2: Text-based filtering
-        try {
-          mainPlayButton = page.locator('button').filter({ hasText: /^Play$/i }).first();
-          await expect(mainPlayButton).toBeVisible();
-          strategyUsed = 'text-based main play button';
-          console.log('✅ Strategy 2 successful: Found play button by exact text');
-        } catch {
-          // Strategy 3: Fallback - any visible play button not in tracklist
-          console.log('⚠️ Using intelligent fallback...');
-          
-          const allButtons = page.getByRole('button');
-          const buttonCount = await allButtons.count();
-          
-          for (let i = 0; i < buttonCount; i++) {
-            const button = allButtons.nth(i);
-            const buttonText = await button.textContent();
-            
-            if (buttonText?.trim() === 'Play' && await button.isVisible()) {
-              mainPlayButton = button;
-              strategyUsed = 'fallback - first visible Play button';
-              console.log('⚠️ Strategy 3 (fallback): Using first visible Play button');
-              break;
-            }
-          }
-          
-          if (!mainPlayButton) {
-            throw new Error('No suitable play button found with any strategy');
-          }
-        }
-      }
-      
-      // Validation: Ensure we have a clickable play button
-      await expect(mainPlayButton).toBeVisible();
-      await expect(mainPlayButton).toBeEnabled();
-      
-      console.log(`🎯 Main play button located using: ${strategyUsed}`);
-      
-      // QA Insight: Log button context for debugging
-      const buttonText = await mainPlayButton.textContent();
-      const buttonAriaLabel = await mainPlayButton.getAttribute('aria-label');
-      console.log(`▶️ Play button text: "${buttonText}"`);
-      console.log(`▶️ Play button aria-label: "${buttonAriaLabel}"`);
-      
-      // Evidence: Capture state before clicking play
-      await page.screenshot({ 
-        path: 'evidence/12-before-clicking-play.png',
-        fullPage: true 
-      });
-      
-      console.log('🖱️ Clicking on the main album play button...');
-      
-      // Execute the click on the play button
-      await mainPlayButton.click();
-      
-      console.log('✅ Play button clicked successfully');
-    });
-
-    await test.step('Validate play action and handle authentication modal', async () => {
-      // QA Strategy: For unauthenticated users, play action should trigger login modal
-      console.log('🔐 Validating authentication barrier for unauthenticated user...');
-      
-      // QA Senior Strategy: Validate specific Portuguese text to confirm both modal and language
-      console.log('🇧🇷 Looking for specific Portuguese authentication text...');
-      
-      // The key phrase that confirms both authentication modal AND Portuguese language
-      const targetPortugueseText = 'Escute com uma conta gratuita do Spotify';
-      
-      // Performance Optimization: Smart waiting for the Portuguese text instead of fixed timeout
-      const portugueseAuthText = page.getByText(targetPortugueseText, { exact: false });
-      
-      try {
-        await portugueseAuthText.waitFor({ state: 'visible', timeout: 5000 });
-        
-        console.log('✅ PERFECT! Found Portuguese authentication text: "Escute com uma conta gratuita do Spotify"');
-        console.log('🎯 This confirms BOTH:');
-        console.log('   1. Authentication modal appeared correctly');
-        console.log('   2. Portuguese language is active in the interface');
-        
-        // Additional validation: Ensure the text is visible and accessible
-        await expect(portugueseAuthText).toBeVisible();
-        
-        const fullModalText = await portugueseAuthText.textContent();
-        console.log(`🔐 Full Portuguese modal text found: "${fullModalText}"`);
-        
-        // Evidence: Capture the Portuguese authentication modal
-        await page.screenshot({ 
-          path: 'evidence/13-portuguese-authentication-modal.png',
-          fullPage: true 
-        });
-        
-        console.log('✅ SUCCESS: Portuguese authentication flow validated completely!');
-        
-      } catch {
-        // Fallback: Look for other Portuguese authentication patterns
-        console.log('🔍 Specific text not found, searching for alternative Portuguese patterns...');
-        
-        const alternativePortuguesePatterns = [
-          'conta gratuita',
-          'Spotify gratuito',
-          'Escute',
-          'Inscrever-se',
-          'Entrar',
-          'conta do Spotify'
-        ];
-        
-        let alternativeFound = false;
-        
-        for (const pattern of alternativePortuguesePatterns) {
-          try {
-            const element = page.getByText(pattern, { exact: false });
-            await element.waitFor({ state: 'visible', timeout: 1000 });
-            console.log(`✅ Alternative Portuguese text found: "${pattern}"`);
-            alternativeFound = true;
-            
-            const contextText = await element.textContent();
-            console.log(`🇧🇷 Context: "${contextText}"`);
-            break;
-          } catch {
-            continue;
-          }
-        }
-        
-        if (alternativeFound) {
-          console.log('✅ Authentication modal confirmed with alternative Portuguese text');
-        } else {
-          console.log('⚠️ Portuguese text patterns not found - capturing state for analysis');
-        }
-        
-        // Evidence: Capture current state for analysis
-        await page.screenshot({ 
-          path: 'evidence/14-authentication-state-analysis.png',
-          fullPage: true 
-        });
-      }
-      
-      console.log('✅ Authentication and language validation completed');
-    });
-
-    await test.step('Final validation and cleanup', async () => {
-      // QA Best Practice: Verify page is still in a stable state
-      const currentUrl = page.url();
-      console.log(`🔗 Final URL: ${currentUrl}`);
-      
-      // Ensure we're on the correct album page
-      expect(currentUrl).toContain('open.spotify.com');
-      expect(currentUrl).toContain('/album/');
-      
-      // Performance Optimization: Quick check for essential album page elements
-      const albumElements = page.locator('h1, [data-testid="album-title"], [data-testid="tracklist"]');
-      const albumElementsCount = await albumElements.count();
-      
-      if (albumElementsCount > 0) {
-        console.log(`🎵 Album page contains ${albumElementsCount} key elements`);
-      }
-      
-      // Final evidence: Document the end state
-      await page.screenshot({ 
-        path: 'evidence/15-test-completion-state.png',
-        fullPage: true 
-      });
-      
-      console.log('✅ Test completed successfully');
-      console.log('📊 Summary: Complete user journey from language selection to album access');
-      console.log('🎯 QA Result: Full flow validated - PT-BR selection → Pink Floyd search → Dark Side album → Portuguese auth modal');
-      console.log('🚀 User Journey: Homepage → Language → Search → Results → Album Page → Play → Auth Modal');
-    });
-  });
-}); 
\ No newline at end of file
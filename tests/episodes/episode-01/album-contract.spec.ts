@@ -0,0 +1,73 @@
+/**
+ * Behind the Test - Episode 1: Album Page Content Contract
+ *
+ * Test Objective:
+ * "An h1 is visible" does not prove the album page is right. For every
+ * album in tests/data/albums, open the album page directly and compare
+ * what it renders - tracklist, track count, durations, artist links,
+ * release year and cover art - with the expected data, so broken metadata
+ * or a missing track fails the test instead of passing unnoticed.
+ *
+ * Every mismatch is listed in one attached report and fails softly.
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ * @episode 1
+ */
+
+import { test, expect } from '@fixtures/index';
+import { HarNetworkSession } from '@helpers/harNetwork';
+import { log } from '@helpers/logger';
+import { OverlayGuard } from '@helpers/overlays';
+import { TAG, tagsWithSmoke } from '@helpers/tags';
+import { formatViolations, validateAlbumContract } from '@helpers/albumContract';
+import { AlbumPage } from '@pages/index';
+import { albumExpectations, journeyTestData } from '@config/index';
+
+test.describe('Behind the Test - Episode 1: Album Page Content Contract', { tag: TAG.album }, () => {
+  let harSession: HarNetworkSession;
+
+  test.beforeEach(async ({ page, context }, testInfo) => {
+    harSession = await HarNetworkSession.attach(context, testInfo, 'episode-01-album-contract');
+    await OverlayGuard.register(page);
+  });
+
+  test.afterEach(async () => {
+    harSession.assertAllRequestsRecorded();
+  });
+
+  for (const expectedAlbum of albumExpectations()) {
+    // QA Strategy: The journey's album is the smoke check; the rest of the catalog runs nightly
+    const isSmoke = expectedAlbum.title === journeyTestData().albumTitle;
+    
+    test(`Album page content matches expected data: ${expectedAlbum.title} (${expectedAlbum.artist.name})`, { tag: tagsWithSmoke(isSmoke) }, async ({ page, anonymousSpotify }, testInfo) => {
+      const albumPage = new AlbumPage(page);
+      
+      await log.step(`Open the ${expectedAlbum.title} album page`, async () => {
+        // QA Insight: Start from the clean anonymous session on the homepage, then deep-link to the album
+        await anonymousSpotify.page.goto(`/album/${expectedAlbum.id}`);
+        await expect(albumPage.heading.first()).toBeVisible();
+        await expect(albumPage.tracklist.first()).toBeVisible();
+        log.info(`💿 Album page opened: ${page.url()}`);
+      });
+      
+      await log.step('Compare rendered content with the expected album data', async () => {
+        const content = await albumPage.readContent();
+        const violations = validateAlbumContract(content, expectedAlbum);
+        
+        // Evidence: Readable contract report first, raw page content second
+        const report = formatViolations(expectedAlbum.title, violations);
+        log.info(report);
+        await testInfo.attach(`album contract: ${expectedAlbum.title}`, { body: report, contentType: 'text/plain' });
+        await testInfo.attach(`album contract: ${expectedAlbum.title} (json)`, {
+          body: JSON.stringify({ expected: expectedAlbum, actual: content, violations }, null, 2),
+          contentType: 'application/json',
+        });
+        
+        // QA Strategy: Soft assertions so one run lists every broken field, not just the first
+        expect.soft(content.tracks.map((track) => track.title), 'tracklist').toEqual(expectedAlbum.tracks.map((track) => track.title));
+        expect.soft(violations, report).toEqual([]);
+      });
+    });
+  }
+});
@@ -0,0 +1,222 @@
+/**
+ * Behind the Test - Episode 1: Deep Links & URL Routing
+ *
+ * Test Objective:
+ * Users rarely arrive at the homepage: they follow a shared album, artist,
+ * track, playlist or search link. Open each of those URLs cold, with no
+ * prior navigation in the anonymous session, and verify that it renders
+ * the right entity, that non-canonical URLs redirect to the canonical one,
+ * that locale-prefixed paths (`/intl-pt/...`) render in their language,
+ * that unknown IDs and malformed URLs end on the not-found page, and that
+ * the authentication boundary holds on a cold load exactly as it does at
+ * the end of the journey.
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ * @episode 1
+ */
+
+import { Locator, Page } from '@playwright/test';
+import { test, expect, preAcceptCookieConsent } from '@fixtures/index';
+import { HarNetworkSession } from '@helpers/harNetwork';
+import { log } from '@helpers/logger';
+import { OverlayGuard } from '@helpers/overlays';
+import { TAG } from '@helpers/tags';
+import { attemptToPlaySong, closeLoginModalAndVerifyConsistency, verifyLoginModalAppears } from '@helpers/unauthenticatedHelpers';
+import { AlbumPage, ArtistPage, HomePage, NotFoundPage, PlaylistPage, SearchResultsPage, TrackPage } from '@pages/index';
+import { getLocale } from '@data/locales';
+import { albumExpectation, deepLinkTestData, environment, journeyTestData } from '@config/index';
+
+interface EntityDeepLink {
+  kind: 'album' | 'artist' | 'track' | 'playlist';
+  path: string;
+  /** Entity name the page heading must show. */
+  name: string;
+  heading: (page: Page) => Locator;
+}
+
+interface CanonicalRedirect {
+  name: string;
+  from: string;
+  to: string;
+  /** What proves the destination rendered; an entity heading or the search results when omitted. */
+  landmark?: (page: Page) => Locator;
+}
+
+const journey = journeyTestData();
+const deepLinks = deepLinkTestData();
+const journeyAlbum = albumExpectation(journey.albumTitle);
+const searchPath = `/search/${encodeURIComponent(journey.searchQuery)}`;
+
+const entityDeepLinks: EntityDeepLink[] = [
+  { kind: 'album', path: `/album/${journeyAlbum.id}`, name: journeyAlbum.title, heading: (page) => new AlbumPage(page).heading.first() },
+  { kind: 'artist', path: `/artist/${journeyAlbum.artist.id}`, name: journeyAlbum.artist.name, heading: (page) => new ArtistPage(page).heading },
+  { kind: 'track', path: `/track/${deepLinks.track.id}`, name: deepLinks.track.title, heading: (page) => new TrackPage(page).heading },
+  { kind: 'playlist', path: `/playlist/${deepLinks.playlist.id}`, name: deepLinks.playlist.name, heading: (page) => new PlaylistPage(page).heading },
+];
+
+const canonicalRedirects: CanonicalRedirect[] = [
+  { name: 'trailing slash', from: `/album/${journeyAlbum.id}/`, to: `/album/${journeyAlbum.id}` },
+  // QA Insight: The one place a slash is added: a locale homepage is /intl-pt/, never /intl-pt
+  {
+    name: 'locale homepage slash',
+    from: `/${deepLinks.localePrefixes[0].prefix}`,
+    to: `/${deepLinks.localePrefixes[0].prefix}/`,
+    landmark: (page) => new HomePage(page).languageButton,
+  },
+  { name: 'legacy user playlist URL', from: `/user/spotify/playlist/${deepLinks.playlist.id}`, to: `/playlist/${deepLinks.playlist.id}` },
+  { name: 'search query parameter', from: `/search?q=${encodeURIComponent(journey.searchQuery)}`, to: searchPath },
+  // QA Insight: Share links carry a tracking token; redirects and routing must not drop it
+  { name: 'share token kept', from: `/track/${deepLinks.track.id}?si=behind-the-test`, to: `/track/${deepLinks.track.id}?si=behind-the-test` },
+];
+
+const notFoundPaths = [
+  ...entityDeepLinks.map(({ kind }) => `/${kind}/${deepLinks.unknownId}`),
+  // Resilience: A truncated percent-escape must not crash the router
+  '/search/%E0%A4%A',
+];
+
+test.describe('Behind the Test - Episode 1: Deep Links & URL Routing', { tag: TAG.deepLinks }, () => {
+  let harSession: HarNetworkSession;
+
+  test.beforeEach(async ({ page, context, baseURL }, testInfo) => {
+    harSession = await HarNetworkSession.attach(context, testInfo, 'episode-01-deep-links');
+
+    // QA Strategy: No anonymousSpotify homepage visit - the deep link is the first page this session loads
+    await preAcceptCookieConsent(context, baseURL!);
+    await OverlayGuard.register(page);
+  });
+
+  test.afterEach(async () => {
+    harSession.assertAllRequestsRecorded();
+  });
+
+  test.describe('Entity deep links render on a cold load', () => {
+    for (const deepLink of entityDeepLinks) {
+      test(`Deep link to the ${deepLink.kind}: ${deepLink.path}`, async ({ page, baseURL }) => {
+        await log.step(`Open ${deepLink.path} directly`, async () => {
+          const response = await page.goto(deepLink.path);
+          expect(response?.status(), `HTTP status of ${deepLink.path}`).toBe(200);
+          log.info(`🔗 ${deepLink.kind} deep link loaded: ${page.url()}`);
+        });
+
+        await log.step(`Verify the ${deepLink.kind} page renders "${deepLink.name}"`, async () => {
+          // Consistency: No redirect away from an already canonical URL
+          await expect(page).toHaveURL(new URL(deepLink.path, baseURL).href);
+          await expect(deepLink.heading(page)).toHaveText(deepLink.name);
+          await expect(page).toHaveTitle(new RegExp(deepLink.name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')));
+        });
+      });
+    }
+
+    test(`Deep link to search results: ${searchPath}`, { tag: TAG.search }, async ({ page }) => {
+      const searchResultsPage = new SearchResultsPage(page);
+
+      await log.step(`Open ${searchPath} directly`, async () => {
+        await page.goto(searchPath);
+        await expect(searchResultsPage.results).toBeVisible();
+      });
+
+      await log.step('Verify the query and the top result', async () => {
+        // QA Insight: The search box must show what the URL searched for, decoded
+        await expect(searchResultsPage.searchInput).toHaveValue(journey.searchQuery);
+        await expect(searchResultsPage.topResultCard).toContainText(journey.expectedTopArtist);
+      });
+    });
+  });
+
+  test.describe('Non-canonical URLs redirect to the canonical one', () => {
+    for (const redirect of canonicalRedirects) {
+      test(`Canonical redirect: ${redirect.name}`, async ({ page, baseURL }) => {
+        await log.step(`Open ${redirect.from}`, async () => {
+          await page.goto(redirect.from);
+        });
+
+        await log.step(`Verify the browser ends on ${redirect.to}`, async () => {
+          await expect(page).toHaveURL(new URL(redirect.to, baseURL).href);
+          const landmark = redirect.landmark?.(page) ?? page.locator('h1, [data-testid="search-results"]').first();
+          await expect(landmark).toBeVisible();
+          log.info(`↪️ ${redirect.from} → ${page.url()}`);
+        });
+      });
+    }
+  });
+
+  test.describe('Locale-prefixed paths render in their language', { tag: TAG.i18n }, () => {
+    for (const { prefix, locale: code } of deepLinks.localePrefixes) {
+      test(`Locale prefix /${prefix}/ renders ${code}`, async ({ page, baseURL }) => {
+        const locale = getLocale(code);
+        const albumPath = `/${prefix}/album/${journeyAlbum.id}`;
+        const albumPage = new AlbumPage(page);
+
+        await log.step(`Open ${albumPath} directly`, async () => {
+          await page.goto(albumPath);
+          await expect(albumPage.heading.first()).toHaveText(journeyAlbum.title);
+        });
+
+        await log.step(`Verify the page is in ${locale.languageName}`, async () => {
+          await expect(page).toHaveURL(new URL(albumPath, baseURL).href);
+          await expect(page.locator('html')).toHaveAttribute('lang', new RegExp(`^${code.split('-')[0]}`, 'i'));
+          await expect(albumPage.searchInput).toHaveAttribute('placeholder', locale.searchPlaceholder);
+        });
+
+        await log.step('Verify links keep the locale prefix', async () => {
+          // Consistency: Following the artist link must not drop the reader back into English
+          await expect.soft(albumPage.creatorLinks.first()).toHaveAttribute('href', new RegExp(`^(https?://[^/]+)?/${prefix}/artist/`));
+        });
+      });
+    }
+  });
+
+  test.describe('Unknown IDs and malformed URLs end on the not-found page', () => {
+    for (const notFoundPath of notFoundPaths) {
+      test(`Not found: ${notFoundPath}`, async ({ page }) => {
+        await log.step(`Open ${notFoundPath}`, async () => {
+          const response = await page.goto(notFoundPath);
+          const status = response?.status();
+          log.info(`🚫 ${notFoundPath} answered ${status}`);
+
+          // QA Insight: The live site may serve its app shell with 200; the mock's status is known exactly
+          if (environment().deterministic) {
+            expect(status, `HTTP status of ${notFoundPath}`).toBe(404);
+          } else {
+            expect(status, `HTTP status of ${notFoundPath}`).toBeLessThan(500);
+          }
+        });
+
+        await log.step('Verify the not-found page is shown', async () => {
+          const notFoundPage = new NotFoundPage(page);
+          await expect(notFoundPage.heading).toBeVisible();
+          await expect(notFoundPage.searchInput).toBeAttached();
+        });
+      });
+    }
+  });
+
+  test.describe('Authentication boundary holds on a cold deep-link load', { tag: TAG.authBoundary }, () => {
+    for (const deepLink of entityDeepLinks) {
+      test(`Play from a cold ${deepLink.kind} deep link requires login`, async ({ page, networkMonitor }) => {
+        await log.step(`Open ${deepLink.path} directly`, async () => {
+          await page.goto(deepLink.path);
+          await expect(deepLink.heading(page)).toHaveText(deepLink.name);
+        });
+
+        await log.step('Attempt to play', async () => {
+          networkMonitor.startWindow('play attempt');
+          await attemptToPlaySong(page);
+          await verifyLoginModalAppears(page);
+          networkMonitor.endWindow();
+          log.info(`🔐 Login modal shown on the cold ${deepLink.kind} deep link`);
+        });
+
+        await log.step('Verify nothing started playing and the page is intact', async () => {
+          // QA Insight: A cold load must not have a head start on playback the journey never gets
+          expect(networkMonitor.playbackCalls(), 'playback endpoints called on a cold deep link').toEqual([]);
+
+          await closeLoginModalAndVerifyConsistency(page);
+          await expect(deepLink.heading(page)).toHaveText(deepLink.name);
+        });
+      });
+    }
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Behind the Test - Episode 1: Keyboard-Only Accessibility
+ * 
+ * Test Objective:
+ * Walk the critical parts of the unauthenticated journey without a mouse:
+ * reach the search input and the album play button with Tab, trigger the
+ * authentication modal from the keyboard and dismiss it with Escape.
+ * Complements closeLoginModalAndVerifyConsistency, which closes the modal
+ * with a pointer click.
+ * 
+ * @author Pedro Porpino
+ * @series Behind the Test
+ * @episode 1
+ */
+
+import { test, expect } from '@fixtures/index';
+import { HarNetworkSession } from '@helpers/harNetwork';
+import { log } from '@helpers/logger';
+import { tabUntilFocused } from '@helpers/accessibility';
+import { OverlayGuard } from '@helpers/overlays';
+import { TAG } from '@helpers/tags';
+import { AlbumPage, SearchResultsPage } from '@pages/index';
+import { journeyTestData } from '@config/index';
+
+test.describe('Behind the Test - Episode 1: Keyboard-Only Accessibility', { tag: [TAG.a11y, TAG.search, TAG.authBoundary] }, () => {
+  let harSession: HarNetworkSession;
+  
+  // QA Insight: Keyboard-only navigation is a desktop scenario; phones and tablets are driven by touch
+  test.skip(({ isMobile }) => isMobile, 'Keyboard-only journey runs on desktop projects');
+  
+  test.beforeEach(async ({ page, context }, testInfo) => {
+    // QA Best Practice: Clean state (storage, consent, locale) comes from the anonymousSpotify fixture
+    
+    harSession = await HarNetworkSession.attach(context, testInfo, 'episode-01-keyboard');
+    
+    // Resilience: An overlay must not steal the Tab sequence
+    await OverlayGuard.register(page);
+  });
+
+  test.afterEach(async () => {
+    harSession.assertAllRequestsRecorded();
+  });
+
+  test('Keyboard user reaches search and play, and dismisses the login modal with Escape', async ({ page, anonymousSpotify }) => {
+    const homePage = anonymousSpotify;
+    const { searchQuery, albumTitle } = journeyTestData();
+    let albumPage: AlbumPage;
+
+    await log.step('Reach search input with Tab', async () => {
+      const presses = await tabUntilFocused(page, homePage.searchInput);
+      await expect(homePage.searchInput).toBeFocused();
+      log.info(`⌨️ Search input reached after ${presses} Tab presses`);
+    });
+
+    await log.step('Search and open the album from the keyboard', async () => {
+      // QA Insight: Type into the focused input the way a keyboard user would, no fill()
+      await page.keyboard.type(searchQuery);
+      
+      const searchResultsPage = new SearchResultsPage(page);
+      const { locator: darkSideAlbum } = await searchResultsPage.findAlbum(albumTitle);
+      
+      // QA Insight: Enter on a focused link is how keyboard users follow it
+      await darkSideAlbum.focus();
+      await page.keyboard.press('Enter');
+      await page.waitForLoadState('networkidle');
+      
+      albumPage = new AlbumPage(page);
+      await expect(page).toHaveURL(/\/album\//);
+    });
+
+    await log.step('Reach the album play button with Tab and activate it', async () => {
+      const { locator: mainPlayButton } = await albumPage.findMainPlayButton();
+      
+      const presses = await tabUntilFocused(page, mainPlayButton);
+      await expect(mainPlayButton).toBeFocused();
+      log.info(`⌨️ Album play button reached after ${presses} Tab presses`);
+      
+      await page.keyboard.press('Enter');
+      await albumPage.loginModal.expectVisible();
+    });
+
+    await log.step('Close the login modal with Escape', async () => {
+      await page.keyboard.press('Escape');
+      await expect(albumPage.loginModal.root).not.toBeVisible();
+      
+      // Consistency: Same guarantees as closeLoginModalAndVerifyConsistency, without a pointer
+      await expect(albumPage.heading.first()).toBeVisible();
+      await expect(albumPage.mainPlayButton).toBeVisible();
+      
+      // QA Insight: Focus should return to the control that opened the dialog
+      await expect.soft(albumPage.mainPlayButton).toBeFocused();
+    });
+  });
+});
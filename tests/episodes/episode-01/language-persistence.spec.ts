@@ -0,0 +1,225 @@
+/**
+ * Behind the Test - Episode 1: Language Persistence & Locale Negotiation
+ *
+ * Test Objective:
+ * The journey checks the language right after language-option-<code> is
+ * clicked, on that page only. A real user reloads, follows links, opens
+ * tabs, comes back tomorrow with the same browser profile and lands on
+ * shared links. Verify that the chosen language survives all of that,
+ * that the browser locale (Accept-Language) only decides while nothing has
+ * been chosen, that a locale-prefixed URL wins without overwriting the
+ * choice, and that switching back to English through
+ * navigateToSpotifyAndChangeLanguage() sticks just as well.
+ *
+ * Test data: languageNegotiation in tests/data/test-data.json
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ * @episode 1
+ */
+
+import { Browser, BrowserContext, BrowserContextOptions, Page } from '@playwright/test';
+import { test, expect, ANONYMOUS_SESSION_DEFAULTS, preAcceptCookieConsent } from '@fixtures/index';
+import { HarNetworkSession } from '@helpers/harNetwork';
+import { log } from '@helpers/logger';
+import { OverlayGuard } from '@helpers/overlays';
+import { TAG } from '@helpers/tags';
+import {
+  attemptToPlaySong,
+  navigateToSpotifyAndChangeLanguage,
+  searchForArtist,
+  verifyInterfaceLanguage,
+  verifyLoginModalAppears,
+} from '@helpers/unauthenticatedHelpers';
+import { AlbumPage, HomePage } from '@pages/index';
+import { getLocale } from '@data/locales';
+import { albumExpectation, deepLinkTestData, journeyTestData, languageNegotiationTestData } from '@config/index';
+
+const journey = journeyTestData();
+const { selectedLocale, browserLocales } = languageNegotiationTestData();
+const selected = getLocale(selectedLocale);
+const english = getLocale('en');
+const albumPath = `/album/${albumExpectation(journey.albumTitle).id}`;
+// A prefix in another language than the selected one, so "the prefix wins" is observable
+const otherPrefix = deepLinkTestData().localePrefixes.find(({ locale }) => locale !== selected.code);
+
+test.describe('Behind the Test - Episode 1: Language Persistence & Locale Negotiation', { tag: TAG.i18n }, () => {
+  let harSession: HarNetworkSession;
+  const extraContexts: BrowserContext[] = [];
+  const extraHarSessions: HarNetworkSession[] = [];
+
+  /** A second browser context, e.g. the same profile tomorrow; closed after the test. */
+  async function openContext(browser: Browser, baseURL: string, storageState?: BrowserContextOptions['storageState']): Promise<Page> {
+    // QA Insight: Device emulation is not carried over; the language lives in storage, not in the viewport
+    const context = await browser.newContext({ baseURL, storageState, locale: ANONYMOUS_SESSION_DEFAULTS.locale, timezoneId: ANONYMOUS_SESSION_DEFAULTS.timezoneId });
+    extraContexts.push(context);
+    extraHarSessions.push(await HarNetworkSession.attach(context, test.info(), `episode-01-language-persistence-context-${extraContexts.length}`));
+    if (!storageState) {
+      await preAcceptCookieConsent(context, baseURL);
+    }
+    const page = await context.newPage();
+    await OverlayGuard.register(page);
+    return page;
+  }
+
+  test.beforeEach(async ({ page, context }, testInfo) => {
+    harSession = await HarNetworkSession.attach(context, testInfo, 'episode-01-language-persistence');
+    await OverlayGuard.register(page);
+  });
+
+  test.afterEach(async () => {
+    await Promise.all(extraContexts.splice(0).map((context) => context.close()));
+    for (const session of [harSession, ...extraHarSessions.splice(0)]) {
+      session.assertAllRequestsRecorded();
+    }
+  });
+
+  test.describe(`Explicit selection: ${selected.languageName}`, () => {
+    test.beforeEach(async ({ page, anonymousSpotify }) => {
+      await log.step(`Select ${selected.languageName} from the language menu`, async () => {
+        // QA Insight: anonymousSpotify already opened a clean session; the helper is the same flow users take
+        await navigateToSpotifyAndChangeLanguage(anonymousSpotify.page, selected.code);
+        await verifyInterfaceLanguage(page, selected.code);
+        log.info(`🌍 ${selected.languageName} selected`);
+      });
+    });
+
+    test('The chosen language survives a reload', async ({ page }) => {
+      await log.step('Reload the page', async () => {
+        await page.reload();
+        await verifyInterfaceLanguage(page, selected.code);
+      });
+    });
+
+    test('The chosen language survives the journey to the album and its login wall', async ({ page }) => {
+      await log.step(`Search for ${journey.expectedTopArtist} and open ${journey.albumTitle}`, async () => {
+        const resultsPage = await searchForArtist(page, journey.searchQuery, journey.expectedTopArtist);
+        await verifyInterfaceLanguage(page, selected.code);
+        const { locator: album } = await resultsPage.findAlbum(journey.albumTitle);
+        await resultsPage.openAlbum(album);
+        await verifyInterfaceLanguage(page, selected.code);
+      });
+
+      await log.step('Verify the login modal speaks the chosen language', async () => {
+        await attemptToPlaySong(page);
+        await verifyLoginModalAppears(page);
+        await expect(new AlbumPage(page).loginModal.headline).toHaveText(selected.authModalHeadline);
+      });
+    });
+
+    test('The chosen language applies to new tabs', async ({ page, context }) => {
+      await log.step('Open the homepage and the album in a new tab', async () => {
+        const tab = await context.newPage();
+        await OverlayGuard.register(tab);
+        await new HomePage(tab).goto();
+        await verifyInterfaceLanguage(tab, selected.code);
+        await tab.goto(albumPath);
+        await verifyInterfaceLanguage(tab, selected.code);
+        await tab.close();
+      });
+
+      await log.step('Verify the original tab is unchanged', async () => {
+        await verifyInterfaceLanguage(page, selected.code);
+      });
+    });
+
+    test('The chosen language applies to cold deep links', async ({ page }) => {
+      for (const path of [albumPath, `/search/${encodeURIComponent(journey.searchQuery)}`]) {
+        await log.step(`Open ${path} directly`, async () => {
+          await page.goto(path);
+          await verifyInterfaceLanguage(page, selected.code);
+        });
+      }
+    });
+
+    test('A locale-prefixed URL wins without overwriting the choice', async ({ page }) => {
+      test.skip(!otherPrefix, `Every locale prefix in deepLinks.localePrefixes is ${selected.code}`);
+      const prefixed = `/${otherPrefix!.prefix}${albumPath}`;
+
+      await log.step(`Open ${prefixed}`, async () => {
+        // QA Insight: The URL is what the sender shared; it must render as sent
+        await page.goto(prefixed);
+        await verifyInterfaceLanguage(page, otherPrefix!.locale);
+      });
+
+      await log.step(`Open ${albumPath} without the prefix`, async () => {
+        await page.goto(albumPath);
+        await verifyInterfaceLanguage(page, selected.code);
+      });
+    });
+
+    test('The chosen language survives a new browser context with the same storage', async ({ context, browser, baseURL }) => {
+      await log.step('Reopen Spotify in a new context with the saved storage state', async () => {
+        const storageState = await context.storageState();
+        const returningPage = await openContext(browser, baseURL!, storageState);
+        await new HomePage(returningPage).goto();
+        await verifyInterfaceLanguage(returningPage, selected.code);
+      });
+
+      await log.step('Verify a context without that storage starts in English', async () => {
+        // Consistency: The choice travels with storage, not with the server or the IP
+        const freshPage = await openContext(browser, baseURL!);
+        await new HomePage(freshPage).goto();
+        await verifyInterfaceLanguage(freshPage, english.code);
+      });
+    });
+
+    test('Switching back to English sticks across reloads, deep links and tabs', async ({ page, context }) => {
+      await log.step('Reset to English through the language menu', async () => {
+        await navigateToSpotifyAndChangeLanguage(page);
+        await verifyInterfaceLanguage(page, english.code);
+        log.info('🌍 Language reset to English');
+      });
+
+      await log.step('Verify English after a reload, a deep link and in a new tab', async () => {
+        await page.reload();
+        await verifyInterfaceLanguage(page, english.code);
+        await page.goto(albumPath);
+        await verifyInterfaceLanguage(page, english.code);
+
+        const tab = await context.newPage();
+        await OverlayGuard.register(tab);
+        await new HomePage(tab).goto();
+        await verifyInterfaceLanguage(tab, english.code);
+        await tab.close();
+      });
+    });
+  });
+
+  for (const { browserLocale, expectedLocale } of browserLocales) {
+    const expected = getLocale(expectedLocale);
+
+    test.describe(`Browser locale ${browserLocale}`, () => {
+      // QA Strategy: The context locale drives navigator.language and the Accept-Language header
+      test.use({ locale: browserLocale });
+
+      test(`Renders in ${expected.languageName} before any language is chosen`, async ({ page, anonymousSpotify }) => {
+        await log.step(`Verify the homepage follows Accept-Language: ${browserLocale}`, async () => {
+          await verifyInterfaceLanguage(anonymousSpotify.page, expected.code);
+        });
+
+        await log.step('Verify a cold deep link does too', async () => {
+          await page.goto(albumPath);
+          await verifyInterfaceLanguage(page, expected.code);
+        });
+      });
+
+      test(`An explicit choice wins over ${browserLocale}, including English`, async ({ page, anonymousSpotify }) => {
+        await log.step(`Select ${selected.languageName}`, async () => {
+          await navigateToSpotifyAndChangeLanguage(anonymousSpotify.page, selected.code);
+          await page.reload();
+          await verifyInterfaceLanguage(page, selected.code);
+        });
+
+        await log.step('Reset to English and reload', async () => {
+          // QA Insight: English is a choice too; it must not fall back to the browser's language
+          await navigateToSpotifyAndChangeLanguage(page);
+          await page.reload();
+          await verifyInterfaceLanguage(page, english.code);
+          await page.goto(albumPath);
+          await verifyInterfaceLanguage(page, english.code);
+        });
+      });
+    });
+  }
+});
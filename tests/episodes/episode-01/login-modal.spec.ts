@@ -0,0 +1,226 @@
+/**
+ * Behind the Test - Episode 1: Login Modal at Every Anonymous Entry Point
+ *
+ * Test Objective:
+ * The journey only triggers the login modal from the album's main play
+ * button. An anonymous user meets the same wall from the track-row play
+ * button, "Save to Your Library", "Add to playlist", "Follow" and the
+ * header Log in / Sign up buttons. For each entry point, verify the prompt
+ * (copy and where its calls to action lead), that every way of closing it
+ * works (X, Escape, backdrop) and that the page underneath is left intact.
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ * @episode 1
+ */
+
+import { Locator, Page } from '@playwright/test';
+import { test, expect } from '@fixtures/index';
+import { HarNetworkSession } from '@helpers/harNetwork';
+import { log } from '@helpers/logger';
+import { OverlayGuard } from '@helpers/overlays';
+import { TAG, tagsWithSmoke } from '@helpers/tags';
+import { verifyLoginModalAppears } from '@helpers/unauthenticatedHelpers';
+import { AlbumPage, ArtistPage, SpotifyPage } from '@pages/index';
+import { LoginModalCloseMethod } from '@pages/LoginModal';
+import { albumExpectation, journeyTestData } from '@config/index';
+
+/** The page an entry point lives on: what identifies it and what the modal must leave in place. */
+interface EntryPage {
+  spotifyPage: SpotifyPage;
+  heading: Locator;
+  /** Track rows on an album, discography links on an artist. */
+  content: Locator;
+}
+
+interface ModalEntryPoint {
+  name: string;
+  startPath: string;
+  entryPage: (page: Page) => EntryPage;
+  trigger: (page: Page) => Promise<Locator>;
+  /** The journey's own entry point; runs on every push. */
+  smoke?: boolean;
+}
+
+interface HeaderEntryPoint {
+  name: string;
+  button: (spotifyPage: SpotifyPage) => Locator;
+  destination: RegExp;
+}
+
+interface PageState {
+  url: string;
+  heading: string;
+  content: number;
+}
+
+const journeyAlbum = albumExpectation(journeyTestData().albumTitle);
+const albumPath = `/album/${journeyAlbum.id}`;
+const artistPath = `/artist/${journeyAlbum.artist.id}`;
+
+function albumEntryPage(page: Page): EntryPage {
+  const albumPage = new AlbumPage(page);
+  return { spotifyPage: albumPage, heading: albumPage.heading.first(), content: albumPage.trackRows };
+}
+
+function artistEntryPage(page: Page): EntryPage {
+  const artistPage = new ArtistPage(page);
+  return { spotifyPage: artistPage, heading: artistPage.heading.first(), content: artistPage.albumLinks };
+}
+
+const modalEntryPoints: ModalEntryPoint[] = [
+  { name: 'album play button', startPath: albumPath, entryPage: albumEntryPage, trigger: async (page) => new AlbumPage(page).mainPlayButton, smoke: true },
+  { name: 'track row play button', startPath: albumPath, entryPage: albumEntryPage, trigger: (page) => new AlbumPage(page).trackRowPlayButton(0) },
+  { name: 'save to library', startPath: albumPath, entryPage: albumEntryPage, trigger: async (page) => new AlbumPage(page).saveButton },
+  { name: 'add to playlist', startPath: albumPath, entryPage: albumEntryPage, trigger: (page) => new AlbumPage(page).trackRowAddToPlaylistButton(0) },
+  { name: 'follow artist', startPath: artistPath, entryPage: artistEntryPage, trigger: async (page) => new ArtistPage(page).followButton },
+];
+
+const headerEntryPoints: HeaderEntryPoint[] = [
+  { name: 'header Log in', button: (spotifyPage) => spotifyPage.headerLoginButton, destination: /\/login/ },
+  { name: 'header Sign up', button: (spotifyPage) => spotifyPage.headerSignUpButton, destination: /\/signup/ },
+];
+
+const closeMethods: LoginModalCloseMethod[] = ['close button', 'Escape', 'backdrop'];
+
+async function pageState(entryPage: EntryPage): Promise<PageState> {
+  return {
+    url: entryPage.spotifyPage.page.url(),
+    heading: (await entryPage.heading.innerText()).trim(),
+    content: await entryPage.content.count(),
+  };
+}
+
+async function expectLoginPrompt(entryPage: EntryPage): Promise<void> {
+  const loginModal = entryPage.spotifyPage.loginModal;
+  // i18n: The prompt speaks the session's language, whichever one the browser was given
+  const locale = await entryPage.spotifyPage.activeLocale();
+
+  // QA Insight: Same headline whatever action hit the wall - one prompt, one message
+  await expect(loginModal.headline).toHaveText(locale.authModalHeadline);
+
+  const destinations = await loginModal.ctaDestinations();
+  log.info(`🔗 Sign up → ${destinations.signUp}, Log in → ${destinations.logIn}`, destinations);
+  expect.soft(destinations.signUp, 'Sign up call to action').toMatch(/\/signup/);
+  expect.soft(destinations.logIn, 'Log in call to action').toMatch(/\/login/);
+}
+
+test.describe('Behind the Test - Episode 1: Login Modal at Every Anonymous Entry Point', { tag: TAG.authBoundary }, () => {
+  let harSession: HarNetworkSession;
+
+  test.beforeEach(async ({ page, context }, testInfo) => {
+    harSession = await HarNetworkSession.attach(context, testInfo, 'episode-01-login-modal');
+    await OverlayGuard.register(page);
+  });
+
+  test.afterEach(async () => {
+    harSession.assertAllRequestsRecorded();
+  });
+
+  test.describe('Actions that require an account open the login modal', () => {
+    for (const entryPoint of modalEntryPoints) {
+      test(`Login modal from the ${entryPoint.name}`, { tag: tagsWithSmoke(!!entryPoint.smoke) }, async ({ page, anonymousSpotify }) => {
+        const entryPage = entryPoint.entryPage(page);
+        let before: PageState;
+        let trigger: Locator;
+        
+        await log.step(`Open ${entryPoint.startPath} as an anonymous user`, async () => {
+          await anonymousSpotify.page.goto(entryPoint.startPath);
+          await expect(entryPage.heading).toBeVisible();
+          before = await pageState(entryPage);
+        });
+        
+        await log.step(`Trigger the ${entryPoint.name}`, async () => {
+          trigger = await entryPoint.trigger(page);
+          await expect(trigger).toBeVisible();
+          await trigger.click();
+          
+          await verifyLoginModalAppears(page);
+          log.info(`🔐 Login modal opened from the ${entryPoint.name}`);
+        });
+        
+        await log.step('Validate copy and call-to-action destinations', async () => {
+          await expectLoginPrompt(entryPage);
+        });
+        
+        await log.step('Close the modal and verify the page is intact', async () => {
+          await entryPage.spotifyPage.loginModal.close();
+          await expect(entryPage.heading).toBeVisible();
+          // QA Insight: The control that hit the wall is still there to try again
+          await expect(trigger).toBeVisible();
+          
+          // Consistency: Same URL, same entity, nothing re-rendered away behind the modal
+          expect(await pageState(entryPage)).toEqual(before);
+        });
+      });
+    }
+  });
+
+  test.describe('Header Log in / Sign up lead to the account pages', () => {
+    for (const entryPoint of headerEntryPoints) {
+      test(`Auth page from the ${entryPoint.name} button`, async ({ page, anonymousSpotify }) => {
+        let before: PageState;
+        let albumPage: AlbumPage;
+        
+        await log.step('Open the album page as an anonymous user', async () => {
+          await anonymousSpotify.page.goto(albumPath);
+          albumPage = new AlbumPage(page);
+          await expect(albumPage.heading.first()).toBeVisible();
+          before = await pageState(albumEntryPage(page));
+        });
+        
+        await log.step(`Click ${entryPoint.name}`, async () => {
+          // Mobile Layout: Log in / Sign up sit behind the collapsed navigation on phones
+          await albumPage.revealHeaderActions();
+          const button = entryPoint.button(albumPage);
+          await expect(button).toBeVisible();
+          await button.click();
+          
+          await expect(page).toHaveURL(entryPoint.destination);
+          log.info(`🔗 ${entryPoint.name} led to ${page.url()}`);
+        });
+        
+        await log.step('Go back and verify the page is intact', async () => {
+          await page.goBack();
+          await expect(albumPage.heading.first()).toBeVisible();
+          expect(await pageState(albumEntryPage(page))).toEqual(before);
+        });
+      });
+    }
+  });
+
+  test.describe('Every way of closing the modal works', () => {
+    for (const method of closeMethods) {
+      test(`Login modal closes with ${method}`, async ({ page, anonymousSpotify, isMobile }) => {
+        // QA Insight: Phones and tablets have no Escape key; X and backdrop cover them
+        test.skip(method === 'Escape' && isMobile, 'No hardware keyboard on touch devices');
+        
+        const albumPage = new AlbumPage(page);
+        let before: PageState;
+        
+        await log.step('Open the login modal from the album play button', async () => {
+          await anonymousSpotify.page.goto(albumPath);
+          await expect(albumPage.mainPlayButton).toBeVisible();
+          before = await pageState(albumEntryPage(page));
+          
+          await albumPage.play();
+          await verifyLoginModalAppears(page);
+        });
+        
+        await log.step(`Close the modal with ${method}`, async () => {
+          await albumPage.loginModal.closeWith(method);
+          log.info(`✅ Login modal closed with ${method}`);
+        });
+        
+        await log.step('Verify the page is intact', async () => {
+          await expect(albumPage.heading.first()).toBeVisible();
+          await expect(albumPage.mainPlayButton).toBeVisible();
+          expect(await pageState(albumEntryPage(page))).toEqual(before);
+          
+          // QA Insight: Focus should return to the control that opened the dialog
+          await expect.soft(albumPage.mainPlayButton).toBeFocused();
+        });
+      });
+    }
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Behind the Test - Episode 1: Consent & Regional Overlays
+ *
+ * Test Objective:
+ * The journey assumes nothing appears between page load and the click on
+ * language-selection-button. Emulate different regions (geolocation and
+ * time zone) with consent NOT pre-accepted, and prove that every overlay
+ * the region brings up (cookie consent, open-in-app, promos) is handled
+ * by OverlayGuard and documented in the evidence trail.
+ *
+ * Region data: tests/data/regions.ts
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ * @episode 1
+ */
+
+import { test, expect } from '@fixtures/index';
+import { HarNetworkSession } from '@helpers/harNetwork';
+import { log } from '@helpers/logger';
+import { EvidenceCollector } from '@helpers/evidence';
+import { KNOWN_OVERLAYS, OverlayGuard } from '@helpers/overlays';
+import { TAG } from '@helpers/tags';
+import { regionMatrix } from '@data/regions';
+import { environment } from '@config/index';
+
+test.describe('Behind the Test - Episode 1: Consent & Regional Overlays', { tag: [TAG.overlays, TAG.i18n] }, () => {
+  let harSession: HarNetworkSession;
+  let evidence: EvidenceCollector;
+  let overlayGuard: OverlayGuard;
+
+  // QA Strategy: Let the consent banner show so the handler, not the fixture, has to deal with it
+  test.use({ preAcceptConsent: false });
+
+  test.beforeEach(async ({ page, context }, testInfo) => {
+    harSession = await HarNetworkSession.attach(context, testInfo, 'episode-01-overlays');
+    evidence = new EvidenceCollector(page, testInfo);
+    
+    // QA Insight: Handlers must exist before the first navigation
+    overlayGuard = await OverlayGuard.register(page, evidence);
+  });
+
+  test.afterEach(async () => {
+    await evidence.writeManifest();
+    harSession.assertAllRequestsRecorded();
+  });
+
+  for (const region of regionMatrix) {
+    test.describe(`${region.region} (${region.timezoneId})`, () => {
+      test.use({
+        timezoneId: region.timezoneId,
+        geolocation: region.geolocation,
+        permissions: ['geolocation'],
+      });
+      
+      // Evidence: The region is part of the title so each region's captures and HAR are its own
+      test(`Overlays between page load and the language button are handled: ${region.region}`, async ({ page, anonymousSpotify, hasTouch }) => {
+        const homePage = anonymousSpotify;
+        
+        await log.step('Open the language menu through whatever overlay the region shows', async () => {
+          // QA Insight: Any overlay covering the button is intercepted right before this click
+          const languageMenu = await homePage.openLanguageMenu();
+          await languageMenu.waitUntilOpen();
+          
+          log.info(`🌍 ${region.region}: language menu reached after ${overlayGuard.interceptions.length} interception(s)`);
+        });
+        
+        await log.step('Select English and confirm the journey can continue', async () => {
+          await homePage.languageMenu.select('en');
+          await expect(homePage.languageButton).toHaveText('English');
+          await expect(homePage.searchInput).toBeEditable();
+        });
+        
+        await log.step('Verify every overlay was handled and documented', async () => {
+          // Validation: Nothing is left covering the page
+          for (const overlay of KNOWN_OVERLAYS) {
+            await expect(overlay.locator(page), `${overlay.name} still visible`).toBeHidden();
+          }
+          
+          // QA Insight: Only deterministic profiles (the mock) have known regional behaviour; live regions come from the real IP
+          // Mobile Layout: Touch devices are also asked to open the app
+          if (environment().deterministic) {
+            const expectedOverlays = [...region.expectedOverlays, ...(hasTouch ? ['open in app prompt'] : [])];
+            expect(overlayGuard.interceptedOverlays().sort()).toEqual(expectedOverlays.sort());
+          }
+          
+          // Evidence: Each interception left a capture in the manifest
+          for (const interception of overlayGuard.interceptions) {
+            expect(interception.evidenceFile, `${interception.overlay} evidence`).toBeTruthy();
+          }
+          
+          await evidence.capture(`${region.region} overlays handled`);
+          log.info(`✅ ${region.region}: handled [${overlayGuard.interceptedOverlays().join(', ') || 'no overlays'}]`);
+        });
+      });
+    });
+  }
+});
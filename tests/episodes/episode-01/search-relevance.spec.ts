@@ -0,0 +1,99 @@
+/**
+ * Behind the Test - Episode 1: Search Relevance & Ranking
+ *
+ * Test Objective:
+ * "The Dark Side of the Moon is somewhere on the page" is not a relevance
+ * check. For every query in tests/data/search-relevance.json, verify the
+ * top result artist, that the expected albums rank within the top N, and
+ * that result sections render in the expected order. Queries cover exact
+ * names, missing diacritics, misspellings and non-Latin scripts.
+ *
+ * Ranking differences are attached to the report as a readable summary
+ * plus JSON, and every expectation fails softly so one run shows them all.
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ * @episode 1
+ */
+
+import { test, expect } from '@fixtures/index';
+import { HarNetworkSession } from '@helpers/harNetwork';
+import { log } from '@helpers/logger';
+import { OverlayGuard } from '@helpers/overlays';
+import { TAG, tagsWithSmoke } from '@helpers/tags';
+import {
+  SearchRelevanceReport,
+  compareAlbumRanking,
+  formatRelevanceReport,
+  sectionsInOrder,
+} from '@helpers/searchRelevance';
+import { SearchResultsPage } from '@pages/index';
+import { journeyTestData, searchRelevanceCases } from '@config/index';
+
+test.describe('Behind the Test - Episode 1: Search Relevance & Ranking', { tag: TAG.search }, () => {
+  let harSession: HarNetworkSession;
+
+  test.beforeEach(async ({ page, context }, testInfo) => {
+    harSession = await HarNetworkSession.attach(context, testInfo, 'episode-01-search-relevance');
+    await OverlayGuard.register(page);
+  });
+
+  test.afterEach(async () => {
+    harSession.assertAllRequestsRecorded();
+  });
+
+  for (const relevanceCase of searchRelevanceCases()) {
+    // QA Strategy: The journey's own query is the smoke check; diacritics, typos and scripts run nightly
+    const isSmoke = relevanceCase.query === journeyTestData().searchQuery;
+    
+    test(`Search relevance: "${relevanceCase.query}" [${relevanceCase.category}] (${relevanceCase.id})`, { tag: tagsWithSmoke(isSmoke) }, async ({ anonymousSpotify }, testInfo) => {
+      const homePage = anonymousSpotify;
+      let searchResultsPage: SearchResultsPage;
+      
+      await log.step(`Search for "${relevanceCase.query}"`, async () => {
+        searchResultsPage = await homePage.typeSearchQuery(relevanceCase.query);
+        await expect(searchResultsPage.results).toBeVisible();
+        
+        // Performance Optimization: Web-first wait for the ranked top result instead of networkidle
+        await expect(searchResultsPage.topResultCard).toBeVisible();
+        log.info(`🔍 Results rendered for "${relevanceCase.query}"`);
+      });
+      
+      await log.step('Compare ranking with the expected relevance', async () => {
+        const topArtist = await searchResultsPage.topResultName();
+        const albumTitles = await searchResultsPage.albumTitles();
+        const sections = await searchResultsPage.sectionOrder();
+        
+        const report: SearchRelevanceReport = {
+          caseId: relevanceCase.id,
+          query: relevanceCase.query,
+          topArtist: { expected: relevanceCase.expectedTopArtist, actual: topArtist },
+          albums: {
+            expectedTopN: relevanceCase.expectedAlbums.topN,
+            actual: albumTitles,
+            differences: compareAlbumRanking(relevanceCase.expectedAlbums, albumTitles),
+          },
+          sections: {
+            expected: relevanceCase.expectedSectionOrder,
+            actual: sections,
+            inOrder: sectionsInOrder(relevanceCase.expectedSectionOrder, sections),
+          },
+        };
+        
+        // Evidence: Human-readable ranking diff first, raw data second
+        const summary = formatRelevanceReport(report);
+        log.info(summary);
+        await testInfo.attach(`search relevance: ${relevanceCase.id}`, { body: summary, contentType: 'text/plain' });
+        await testInfo.attach(`search relevance: ${relevanceCase.id} (json)`, {
+          body: JSON.stringify(report, null, 2),
+          contentType: 'application/json',
+        });
+        
+        // QA Strategy: Soft assertions so a single run reports top result, albums and sections together
+        await expect.soft(searchResultsPage.topResultCard, 'top result artist').toContainText(relevanceCase.expectedTopArtist);
+        expect.soft(report.albums.differences, `albums outside the top ${relevanceCase.expectedAlbums.topN}`).toEqual([]);
+        expect.soft(report.sections.inOrder, `section order ${sections.join(' → ')}`).toBe(true);
+      });
+    });
+  }
+});
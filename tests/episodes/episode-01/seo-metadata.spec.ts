@@ -0,0 +1,87 @@
+/**
+ * Behind the Test - Episode 1: SEO & Share Metadata
+ *
+ * Test Objective:
+ * Anonymous Spotify pages exist largely for search engines and link
+ * previews, and `toHaveTitle(/Spotify/i)` says little about either. Open
+ * the homepage, search, artist and album pages of the Episode 1 journey
+ * the way a crawler does - a cold load of the URL - and check title,
+ * description, robots, canonical URL, hreflang alternates per locale,
+ * Open Graph and Twitter card tags and JSON-LD structured data against the
+ * page type's expectations in tests/data/seo-metadata.json.
+ *
+ * Every mismatch is listed in one attached report and fails softly.
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ * @episode 1
+ */
+
+import { test, expect, preAcceptCookieConsent } from '@fixtures/index';
+import { HarNetworkSession } from '@helpers/harNetwork';
+import { log } from '@helpers/logger';
+import { OverlayGuard } from '@helpers/overlays';
+import { TAG } from '@helpers/tags';
+import { MetadataTarget, formatMetadataViolations, readPageMetadata, validatePageMetadata } from '@helpers/seoMetadata';
+import { albumExpectation, deepLinkTestData, journeyTestData, seoExpectations } from '@config/index';
+
+const journey = journeyTestData();
+const journeyAlbum = albumExpectation(journey.albumTitle);
+
+const metadataTargets: (MetadataTarget & { label: string })[] = [
+  { label: 'homepage', pageType: 'homepage', path: '/' },
+  { label: `search "${journey.searchQuery}"`, pageType: 'search', path: `/search/${encodeURIComponent(journey.searchQuery)}`, entityName: journey.searchQuery },
+  { label: `artist ${journeyAlbum.artist.name}`, pageType: 'artist', path: `/artist/${journeyAlbum.artist.id}`, entityName: journeyAlbum.artist.name },
+  { label: `album ${journeyAlbum.title}`, pageType: 'album', path: `/album/${journeyAlbum.id}`, entityName: journeyAlbum.title },
+  // QA Insight: A shared link carries a tracking token; the canonical URL must not
+  { label: `album ${journeyAlbum.title} (shared link)`, pageType: 'album', path: `/album/${journeyAlbum.id}?si=behind-the-test`, entityName: journeyAlbum.title },
+  // Consistency: Each locale version is canonical to itself and lists the same alternates
+  ...deepLinkTestData().localePrefixes.map(({ prefix }) => ({
+    label: `album ${journeyAlbum.title} (/${prefix}/)`,
+    pageType: 'album' as const,
+    path: `/${prefix}/album/${journeyAlbum.id}`,
+    entityName: journeyAlbum.title,
+  })),
+];
+
+test.describe('Behind the Test - Episode 1: SEO & Share Metadata', { tag: TAG.seo }, () => {
+  let harSession: HarNetworkSession;
+
+  test.beforeEach(async ({ page, context, baseURL }, testInfo) => {
+    harSession = await HarNetworkSession.attach(context, testInfo, 'episode-01-seo-metadata');
+    await preAcceptCookieConsent(context, baseURL!);
+    await OverlayGuard.register(page);
+  });
+
+  test.afterEach(async () => {
+    harSession.assertAllRequestsRecorded();
+  });
+
+  for (const target of metadataTargets) {
+    test(`Page metadata matches the ${target.pageType} expectations: ${target.label}`, async ({ page, baseURL }, testInfo) => {
+      await log.step(`Open ${target.path}`, async () => {
+        // QA Strategy: Crawlers and link unfurlers read the served document, so no navigation before it
+        const response = await page.goto(target.path);
+        expect(response?.ok(), `HTTP status of ${target.path}`).toBe(true);
+        log.info(`🔎 ${target.pageType} page loaded: ${page.url()}`);
+      });
+
+      await log.step('Compare head metadata with the page type expectations', async () => {
+        const snapshot = await readPageMetadata(page);
+        const violations = validatePageMetadata(snapshot, target, seoExpectations(), baseURL!);
+
+        // Evidence: Readable report first, the raw head metadata second
+        const report = formatMetadataViolations(target.label, violations);
+        log.info(report);
+        await testInfo.attach(`seo metadata: ${target.label}`, { body: report, contentType: 'text/plain' });
+        await testInfo.attach(`seo metadata: ${target.label} (json)`, {
+          body: JSON.stringify({ target, expected: seoExpectations().pageTypes[target.pageType], actual: snapshot, violations }, null, 2),
+          contentType: 'application/json',
+        });
+
+        // QA Strategy: Soft assertion so one run lists every broken tag, not just the first
+        expect.soft(violations, report).toEqual([]);
+      });
+    });
+  }
+});
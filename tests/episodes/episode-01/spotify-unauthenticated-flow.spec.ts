@@ -0,0 +1,514 @@
+/**
+ * Behind the Test - Episode 1: Spotify Unauthenticated User Flow
+ * 
+ * Series: Testing Like a Real User
+ * Episode Focus: Unauthenticated User Experience Validation
+ * 
+ * Test Objective:
+ * Validate the complete user journey of an unauthenticated user on Spotify Web,
+ * demonstrating professional QA practices including internationalization testing,
+ * content discovery validation, and authentication boundary enforcement.
+ * 
+ * Technical Showcase:
+ * - Smart element location strategies with fallback approaches
+ * - Performance-optimized waiting mechanisms 
+ * - Comprehensive evidence collection with strategic screenshots
+ * - Visual regression checkpoints against per-project baselines
+ * - axe-core accessibility audits at every major step
+ * - Navigation Timing, LCP, CLS and long-task budgets per browser project
+ * - Network-level proof that no playback, stream or DRM endpoint is called before login
+ * - Multi-language validation and i18n testing, data-driven from tests/data/locales.ts
+ * - Context-aware selector strategies for robust automation
+ * 
+ * Target Application: https://open.spotify.com/ (or another profile via SPOTIFY_PROFILE, e.g. the offline mock)
+ * Test Type: E2E User Journey Simulation
+ * Framework: Playwright with TypeScript
+ * 
+ * @author Pedro Porpino
+ * @series Behind the Test
+ * @episode 1
+ */
+
+import { test, expect } from '@fixtures/index';
+import { HarNetworkSession } from '@helpers/harNetwork';
+import { log } from '@helpers/logger';
+import { EvidenceCollector } from '@helpers/evidence';
+import { OverlayGuard } from '@helpers/overlays';
+import { TAG } from '@helpers/tags';
+import { recordSoftFallback } from '@helpers/softFallback';
+import { expectVisualCheckpoint } from '@helpers/visualCheckpoints';
+import { auditAccessibility } from '@helpers/accessibility';
+import { formatViolations, validateAlbumContract, validateAlbumStructure } from '@helpers/albumContract';
+import { AlbumPage, LoginModal, SearchResultsPage } from '@pages/index';
+import { journeyLocales } from '@data/locales';
+import { findAlbumExpectation, journeyTestData } from '@config/index';
+
+test.describe('Behind the Test - Episode 1: Spotify Unauthenticated Flow', { tag: [TAG.i18n, TAG.search, TAG.authBoundary] }, () => {
+  let harSession: HarNetworkSession;
+  let evidence: EvidenceCollector;
+  
+  test.beforeEach(async ({ page, context }, testInfo) => {
+    // QA Best Practice: Clean state (storage, consent, locale) comes from the anonymousSpotify fixture,
+    // the viewport from the project (1366x768 on desktop, real device emulation on phones and tablets)
+    
+    // Determinism: Record or replay network traffic when SPOTIFY_NETWORK asks for it
+    harSession = await HarNetworkSession.attach(context, testInfo, 'episode-01');
+    
+    // Evidence: Captures are named per project, test and step and attached to the report
+    evidence = new EvidenceCollector(page, testInfo);
+    
+    // Resilience: Consent banners, open-in-app prompts and promos are dismissed and logged as evidence
+    await OverlayGuard.register(page, evidence);
+    
+    log.info('🧪 Test Environment: Clean state initialized for Episode 1');
+  });
+
+  test.afterEach(async () => {
+    // Evidence: Persist the manifest even when the test failed midway
+    await evidence.writeManifest();
+    
+    // QA Insight: A replay that hit unrecorded requests must fail and name them
+    harSession.assertAllRequestsRecorded();
+  });
+
+  // QA Strategy: One journey per locale in the catalog; new languages are a data change
+  for (const locale of journeyLocales()) {
+    test(`Complete Unauthenticated User Journey: Language → Search → Discovery → Authentication Boundary [${locale.code}]`, async ({ page, baseURL, anonymousSpotify, networkMonitor, performanceMonitor }, testInfo) => {
+      // QA Insight: The target host comes from baseURL so the same journey runs live or against the mock
+      const targetHost = new URL(baseURL!).host;
+      // Test Data: Search term and album come from tests/data/test-data.json, schema-checked
+      const { searchQuery, expectedTopArtist, albumTitle } = journeyTestData();
+      
+      // Page objects: the fixture hands over the opened homepage, the rest are assigned along the journey
+      const homePage = anonymousSpotify;
+      let searchResultsPage: SearchResultsPage;
+      let albumPage: AlbumPage;
+      let loginModal: LoginModal;
+      
+      await log.step('Navigate to Spotify Web homepage', async () => {
+        // QA Insight: anonymousSpotify already opened the actual user entry point from a clean session
+        // Performance Optimization: goto() waited for actual page load instead of fixed timeout
+        
+        // Validation: Confirm we're on the correct page
+        expect(new URL(page.url()).host).toBe(targetHost);
+        await expect(page).toHaveTitle(/Spotify/i);
+        
+        log.info('✅ Navigation successful: Spotify homepage loaded');
+        
+        // Network Boundary: The session-wide playback check only means something if the homepage load was recorded
+        const homepageDocuments = networkMonitor.requests().filter((event) => event.resourceType === 'document');
+        expect(homepageDocuments.length, 'homepage document load missing from the network timeline').toBeGreaterThan(0);
+        
+        // Performance Budget: Measured, not just optimized - over-budget metrics fail softly
+        await performanceMonitor.measure('homepage');
+        
+        // Evidence: Capture initial page state
+        await evidence.capture('spotify homepage loaded');
+        
+        // Visual Regression: Homepage layout with recommendations and cover art masked
+        await expectVisualCheckpoint(page, [locale.code, 'homepage'], { mask: homePage.visualMasks() });
+        
+        // Accessibility: New violations above the impact threshold fail softly
+        await auditAccessibility(page, testInfo, 'homepage');
+      });
+
+      await log.step('Locate and validate language selection button', async () => {
+        // QA Critical Point: Using the specific data-testid as provided
+        const languageButton = homePage.languageButton;
+        
+        // Performance Optimization: Direct validation without timeout
+        await expect(languageButton).toBeVisible();
+        await expect(languageButton).toBeEnabled();
+        
+        // QA Insight: Check if button has proper accessibility attributes
+        const buttonText = await languageButton.textContent();
+        log.info(`🌐 Language button found with text: "${buttonText}"`);
+        
+        // Validate button has meaningful content (not empty)
+        expect(buttonText).toBeTruthy();
+        expect(buttonText?.trim().length).toBeGreaterThan(0);
+        
+        log.info('✅ Language selection button validated: Present, visible, and interactive');
+        
+        // Evidence: Capture button location and state
+        await evidence.capture('language button located');
+      });
+
+      await log.step('Open language selection menu', async () => {
+        // QA Strategy: Actual click interaction to verify functionality
+        log.info('🖱️ Attempting to click language selection button...');
+        
+        // Execute the click action
+        const languageMenu = await homePage.openLanguageMenu();
+        
+        // Smart waiting: Check if dropdown or options become visible instead of fixed timeout
+        try {
+          await languageMenu.waitUntilOpen();
+          
+          log.info('✅ Language selection interface opened successfully');
+          
+          const optionCount = await languageMenu.options.count();
+          log.info(`🌍 Found ${optionCount} language options available`);
+          
+          // Evidence: Capture the opened language selection interface
+          await evidence.capture('language selection opened');
+          
+          // Visual Regression: The menu itself, not the page behind the overlay
+          await expectVisualCheckpoint(languageMenu.container.first(), [locale.code, 'language-menu']);
+          
+          // Accessibility: Audit the open menu (options, roles, names)
+          await auditAccessibility(page, testInfo, 'language-menu', languageMenu.container);
+          
+        } catch (error) {
+          await recordSoftFallback('Language selection click may have triggered different UI behavior', error);
+          
+          // Evidence: Capture current state for analysis
+          await evidence.capture('language click result');
+        }
+        
+        log.info('✅ Language selection menu interaction completed');
+      });
+
+      await log.step(`Select ${locale.languageName} language option`, async () => {
+        // QA Critical Point: Using the specific data-testid for the locale option (language-option-<code>)
+        const languageOption = homePage.languageMenu.option(locale.code);
+        
+        // Performance Optimization: Direct validation without timeout
+        await expect(languageOption).toBeVisible();
+        await expect(languageOption).toBeEnabled();
+        
+        // QA Insight: Check the option content before clicking
+        const optionText = await languageOption.textContent();
+        log.info(`🌍 ${locale.code} option found with text: "${optionText}"`);
+        
+        // Validate option has meaningful content
+        expect(optionText).toBeTruthy();
+        expect(optionText?.trim().length).toBeGreaterThan(0);
+        
+        // Evidence: Capture state before selecting the locale
+        await evidence.capture('before selecting language');
+        
+        // Execute the selection
+        log.info(`🖱️ Clicking on ${locale.languageName} language option...`);
+        
+        // Performance Optimization: select() waits for the actual language change to complete
+        await homePage.languageMenu.select(locale.code);
+        
+        log.info(`✅ ${locale.languageName} language option selected`);
+      });
+
+      await log.step('Validate language change took effect', async () => {
+        // QA Strategy: Verify the language change was applied to the interface
+        
+        // Performance Optimization: Wait for language button to show new text instead of fixed timeout
+        const languageButton = homePage.languageButton;
+        await expect(languageButton).toBeVisible();
+        
+        const currentButtonText = await languageButton.textContent();
+        log.info(`🌐 Language button now shows: "${currentButtonText}"`);
+        
+        // Catalog Validation: The language button and header auth buttons show the selected locale
+        // Mobile Layout: Header auth buttons sit behind the collapsed navigation on phones
+        await homePage.revealHeaderActions();
+        // Performance Optimization: Web-first assertions wait for the new text instead of fixed timeout
+        await expect(languageButton).toHaveText(locale.languageName);
+        await expect(homePage.headerLoginButton).toHaveText(locale.loginButtonLabels.logIn);
+        await expect(homePage.headerSignUpButton).toHaveText(locale.loginButtonLabels.signUp);
+        log.info(`✅ Language change confirmed: header shows "${locale.loginButtonLabels.logIn}" / "${locale.loginButtonLabels.signUp}"`);
+        
+        // Evidence: Capture the page after language change
+        await evidence.capture('after selecting language');
+        
+        log.info('✅ Language change validation completed');
+      });
+
+      await log.step('Locate and interact with search input field', async () => {
+        // QA Critical Point: Using the specific data-testid for search input
+        // Mobile Layout: Phones open search from the bottom navigation first
+        const searchInput = await homePage.openSearch();
+        
+        // Performance Optimization: Direct validation without timeout
+        await expect(searchInput).toBeVisible();
+        await expect(searchInput).toBeEnabled();
+        await expect(searchInput).toBeEditable();
+        
+        // QA Insight: Check search input attributes and placeholder
+        const placeholder = await searchInput.getAttribute('placeholder');
+        log.info(`🔍 Search input found with placeholder: "${placeholder}"`);
+        
+        // Catalog Validation: Placeholder must be the localized one for the selected language
+        expect(placeholder).toBe(locale.searchPlaceholder);
+        
+        // Evidence: Capture state before clicking search input
+        await evidence.capture('before clicking search');
+        
+        // Click on the search input to focus it
+        log.info('🖱️ Clicking on search input field...');
+        await searchInput.click();
+        
+        // Performance Optimization: Verify focus immediately using evaluate
+        await expect(searchInput).toBeFocused();
+        
+        log.info('✅ Search input field focused successfully');
+      });
+
+      await log.step(`Type search query for ${expectedTopArtist}`, async () => {
+        // QA Strategy: Test search functionality with a well-known artist
+        log.info(`⌨️ Typing search query: "${searchQuery}"`);
+        
+        // Clear any existing content first (defensive approach), then type the search query
+        searchResultsPage = await homePage.typeSearchQuery(searchQuery);
+        
+        // QA Validation: Verify the text was entered correctly
+        await expect(searchResultsPage.searchInput).toHaveValue(searchQuery);
+        log.info(`✅ Search query entered successfully: "${searchQuery}"`);
+        
+        // Evidence: Capture the search input with the typed query
+        await evidence.capture('search query entered');
+        
+        // Performance Optimization: Wait for search suggestions to appear (if any) using smart waiting
+        const searchSuggestions = searchResultsPage.suggestions;
+        
+        try {
+          await searchSuggestions.first().waitFor({ state: 'visible', timeout: 2000 });
+          const suggestionsCount = await searchSuggestions.count();
+          log.info(`🎯 Search suggestions appeared: Found ${suggestionsCount} suggestion elements`);
+          
+          // Evidence: Capture search suggestions if they appeared
+          await evidence.capture('search suggestions appeared');
+        } catch (error) {
+          await recordSoftFallback('No immediate search suggestions detected', error);
+        }
+        
+        log.info('✅ Search query input completed');
+      });
+
+      await log.step(`Wait for search results and locate ${albumTitle} album`, async () => {
+        // QA Strategy: Wait for search results to load completely
+        log.info('⏳ Waiting for search results to load...');
+        
+        // Performance Optimization: Wait for actual search results instead of fixed timeout
+        await page.waitForLoadState('networkidle');
+        
+        // QA Senior Strategy: Multiple selector fallback approach
+        log.info('🔍 Applying QA Senior fallback selector strategy...');
+        
+        // Cascade: exact text → text= → [title*=] → data-testid*="card" (see SearchResultsPage.albumStrategies)
+        const { locator: darkSideAlbum, strategy: selectorUsed } = await searchResultsPage.findAlbum(albumTitle);
+        
+        // Validation: Ensure we found the album regardless of strategy used
+        await expect(darkSideAlbum).toBeVisible();
+        log.info(`🎯 Album located using: ${selectorUsed}`);
+        
+        // QA Insight: Verify this is indeed the correct album
+        const albumText = await darkSideAlbum.textContent();
+        log.info(`🎵 Album text content: "${albumText}"`);
+        
+        // Validate this contains the journey album
+        expect(albumText?.toLowerCase()).toContain(albumTitle.toLowerCase());
+        
+        // Performance Budget: Results are rendered client-side, so this is a soft navigation sample
+        await performanceMonitor.measure('search-results');
+        
+        // Additional validation: Ensure the element is clickable
+        await expect(darkSideAlbum).toBeEnabled();
+        
+        // Evidence: Capture search results with the target album highlighted
+        await evidence.capture('search results with dark side', { locatorStrategy: selectorUsed });
+        
+        // Visual Regression: Results layout with cover art masked
+        await expectVisualCheckpoint(page, [locale.code, 'search-results'], { mask: searchResultsPage.visualMasks() });
+        
+        // Accessibility: Results must stay navigable in the selected language
+        await auditAccessibility(page, testInfo, 'search-results');
+        
+        log.info(`✅ ${albumTitle} album located in search results`);
+      });
+
+      await log.step(`Click on ${albumTitle} album`, async () => {
+        // QA Strategy: Use smart element location and validation
+        log.info(`🖱️ Clicking on ${albumTitle} album...`);
+        
+        // Evidence: Capture state before clicking the album
+        await evidence.capture('before clicking album');
+        
+        // Performance Optimization: The cascade returns the most reliable selector that matches
+        const { locator: darkSideAlbum } = await searchResultsPage.findAlbum(albumTitle);
+        
+        // Ensure we can click on it
+        await expect(darkSideAlbum).toBeEnabled();
+        
+        // Execute the click on the album
+        // Performance Optimization: openAlbum() waits for navigation to complete
+        albumPage = await searchResultsPage.openAlbum(darkSideAlbum);
+        
+        // QA Validation: Verify we've navigated to an album page
+        const currentUrl = page.url();
+        log.info(`🔗 Navigated to: ${currentUrl}`);
+        
+        // Validate URL contains album identifier
+        expect(currentUrl).toContain('/album/');
+        
+        // Performance Optimization: Smart waiting for album page indicators
+        try {
+          const { locator: albumHeading } = await albumPage.findTitle(albumTitle);
+          const pageTitle = await albumHeading.textContent();
+          log.info(`🎵 Album page confirmed with title: "${pageTitle}"`);
+          expect(pageTitle?.toLowerCase()).toContain(albumTitle.toLowerCase());
+        } catch (error) {
+          await recordSoftFallback('Album page title not found, but URL suggests we are on album page', error);
+        }
+        
+        // Content Contract: Tracklist, durations, artist links, release year and cover art against tests/data/albums
+        const albumContent = await albumPage.readContent();
+        const expectedAlbum = findAlbumExpectation(albumTitle);
+        const violations = expectedAlbum ? validateAlbumContract(albumContent, expectedAlbum) : validateAlbumStructure(albumContent);
+        const contractReport = formatViolations(albumTitle, violations);
+        log.info(contractReport);
+        await testInfo.attach('album contract', { body: contractReport, contentType: 'text/plain' });
+        expect.soft(violations, contractReport).toEqual([]);
+        
+        // Performance Budget: Album page with cover art and tracklist rendered
+        await performanceMonitor.measure('album-page');
+        
+        // Evidence: Capture the album page after successful navigation
+        await evidence.capture('album page loaded');
+        
+        // Visual Regression: Album header, action bar and tracklist with cover art masked
+        await expectVisualCheckpoint(page, [locale.code, 'album-page'], { mask: albumPage.visualMasks() });
+        
+        // Accessibility: Tracklist grid and play controls
+        await auditAccessibility(page, testInfo, 'album-page');
+        
+        log.info(`✅ Successfully navigated to ${albumTitle} album page`);
+      });
+
+      await log.step('Locate and click the main album play button', async () => {
+        // QA Senior Challenge: The main album play button doesn't have data-testid="play-button"
+        log.info('🎯 QA Senior Analysis: Locating main album play button using context-aware strategy...');
+        
+        // Performance Optimization: Wait for page to be ready
+        await page.waitForLoadState('networkidle');
+        
+        // Cascade: role + exact name → first action bar button → first visible Play-named button (see AlbumPage.mainPlayButtonStrategies)
+        const { locator: mainPlayButton, strategy: strategyUsed } = await albumPage.findMainPlayButton();
+        
+        // Validation: Ensure we have a clickable play button
+        await expect(mainPlayButton).toBeVisible();
+        await expect(mainPlayButton).toBeEnabled();
+        
+        log.info(`🎯 Main play button located using: ${strategyUsed}`);
+        
+        // QA Insight: Log button context for debugging
+        const buttonText = await mainPlayButton.textContent();
+        const buttonAriaLabel = await mainPlayButton.getAttribute('aria-label');
+        log.info(`▶️ Play button text: "${buttonText}"`);
+        log.info(`▶️ Play button aria-label: "${buttonAriaLabel}"`);
+        
+        // Evidence: Capture state before clicking play
+        await evidence.capture('before clicking play', { locatorStrategy: strategyUsed });
+        
+        log.info('🖱️ Clicking on the main album play button...');
+        
+        // Network Boundary: Everything from the click until the modal is validated belongs to the play attempt
+        networkMonitor.startWindow('play attempt');
+        
+        // Execute the click on the play button
+        await mainPlayButton.click();
+        loginModal = albumPage.loginModal;
+        
+        log.info('✅ Play button clicked successfully');
+      });
+
+      await log.step('Validate play action and handle authentication modal', async () => {
+        // QA Strategy: For unauthenticated users, play action should trigger login modal
+        log.info('🔐 Validating authentication barrier for unauthenticated user...');
+        
+        // QA Senior Strategy: Validate the catalog headline to confirm both modal and language
+        log.info(`🌍 Looking for the ${locale.code} authentication headline...`);
+        
+        // Performance Optimization: Smart waiting for the localized text instead of fixed timeout
+        // Fallback: Looser localized copy from the catalog, tried only if the headline is missing
+        try {
+          const { locator: authText, strategyIndex } = await loginModal.findCopy(
+            locale.authModalHeadline,
+            locale.authModalFallbackCopy
+          );
+          
+          if (strategyIndex === 0) {
+            log.info(`✅ PERFECT! Found ${locale.code} authentication text: "${locale.authModalHeadline}"`);
+            log.info('🎯 This confirms BOTH:');
+            log.info('   1. Authentication modal appeared correctly');
+            log.info(`   2. ${locale.languageName} is active in the interface`);
+            
+            // Additional validation: Ensure the text is visible and accessible
+            await expect(authText).toBeVisible();
+            
+            const fullModalText = await authText.textContent();
+            log.info(`🔐 Full ${locale.code} modal text found: "${fullModalText}"`);
+            
+            // Evidence: Capture the localized authentication modal
+            await evidence.capture('localized authentication modal');
+            
+            log.info(`✅ SUCCESS: ${locale.languageName} authentication flow validated completely!`);
+          } else {
+            const contextText = await authText.textContent();
+            log.info(`🌍 Context: "${contextText}"`);
+            log.info(`✅ Authentication modal confirmed with alternative ${locale.code} text`);
+            
+            // Evidence: Capture current state for analysis
+            await evidence.capture('authentication state analysis');
+          }
+        } catch (error) {
+          await recordSoftFallback(`${locale.code} authentication copy not found - capturing state for analysis`, error);
+          
+          // Evidence: Capture current state for analysis
+          await evidence.capture('authentication state analysis');
+        }
+        
+        // Visual Regression: Localized auth modal layout (e.g. long pt-BR or de copy breaking the layout)
+        await expectVisualCheckpoint(loginModal.root, [locale.code, 'auth-modal']);
+        
+        // Accessibility: The dialog itself (labelling, focusable controls)
+        await auditAccessibility(page, testInfo, 'login-modal', loginModal.root);
+        
+        // Network Boundary: The UI says "log in", the network must agree - no stream, license or player calls
+        networkMonitor.endWindow();
+        const playAttemptRequests = networkMonitor.requests('play attempt');
+        log.info(`📡 Play attempt issued ${playAttemptRequests.length} request(s); full timeline attached to the report`);
+        expect(networkMonitor.playbackCalls('play attempt'), 'playback endpoints called before login').toEqual([]);
+        
+        log.info('✅ Authentication and language validation completed');
+      });
+
+      await log.step('Final validation and cleanup', async () => {
+        // QA Best Practice: Verify page is still in a stable state
+        const currentUrl = page.url();
+        log.info(`🔗 Final URL: ${currentUrl}`);
+        
+        // Ensure we're on the correct album page
+        expect(currentUrl).toContain(targetHost);
+        expect(currentUrl).toContain('/album/');
+        
+        // Performance Optimization: Quick check for essential album page elements
+        const albumElements = albumPage.keyElements;
+        const albumElementsCount = await albumElements.count();
+        
+        if (albumElementsCount > 0) {
+          log.info(`🎵 Album page contains ${albumElementsCount} key elements`);
+        }
+        
+        // Network Boundary: Nothing in the whole anonymous session may have reached a playback endpoint
+        expect(networkMonitor.playbackCalls(), 'playback endpoints called during the anonymous session').toEqual([]);
+        
+        // Final evidence: Document the end state
+        await evidence.capture('test completion state');
+        
+        log.info('✅ Test completed successfully');
+        log.info('📊 Summary: Complete user journey from language selection to album access');
+        log.info(`🎯 QA Result: Full flow validated - ${locale.code} selection → ${expectedTopArtist} search → ${albumTitle} → ${locale.code} auth modal`);
+        log.info('🚀 User Journey: Homepage → Language → Search → Results → Album Page → Play → Auth Modal');
+      });
+    });
+  }
+}); 
\ No newline at end of file
@@ -0,0 +1,88 @@
+import { BrowserContext, Geolocation, expect, mergeTests } from '@playwright/test';
+import { HomePage } from '@pages/HomePage';
+import { log } from '@helpers/logger';
+import { test as networkMonitorTest } from './networkMonitor';
+import { test as performanceTest } from './performance';
+
+/**
+ * Behind the Test - Anonymous Spotify Session Fixture
+ *
+ * Every test gets the same well-defined unauthenticated state instead of
+ * whatever the previous test or the browser profile left behind:
+ * - empty storage state: no cookies, no localStorage, no locale cookie
+ * - cookie consent pre-accepted, so no banner covers the journey
+ *   (test.use({ preAcceptConsent: false }) lets the banner show, see OverlayGuard)
+ * - locale, timezone and geolocation pinned, geolocation permission granted
+ *   (override with test.use)
+ *
+ * `anonymousSpotify` hands the test a HomePage already opened at the
+ * configured baseURL with the header Log in button visible. It depends on
+ * networkMonitor and performanceMonitor so both are listening before that
+ * first navigation, whatever order a test lists its fixtures in.
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ */
+
+export const ANONYMOUS_SESSION_DEFAULTS = {
+  locale: 'en-US',
+  timezoneId: 'UTC',
+  // Stockholm, where Spotify is headquartered
+  geolocation: { latitude: 59.3293, longitude: 18.0686 } as Geolocation,
+};
+
+/**
+ * Writes the OneTrust cookies Spotify checks before showing its consent
+ * banner, as if the user had already accepted it.
+ */
+export async function preAcceptCookieConsent(context: BrowserContext, baseURL: string): Promise<void> {
+  const { hostname, origin } = new URL(baseURL);
+  const scope = hostname.endsWith('spotify.com') ? { domain: '.spotify.com', path: '/' } : { url: origin };
+  const acceptedAt = new Date().toISOString();
+
+  await context.addCookies([
+    { name: 'OptanonAlertBoxClosed', value: acceptedAt, ...scope },
+    {
+      name: 'OptanonConsent',
+      value: `isGpcEnabled=0&datestamp=${encodeURIComponent(acceptedAt)}&interactionCount=1&groups=s00%3A1%2Cf00%3A1%2Cm00%3A1%2Ct00%3A1%2Ci00%3A1%2Cf11%3A1`,
+      ...scope,
+    },
+  ]);
+}
+
+const base = mergeTests(networkMonitorTest, performanceTest);
+
+export const test = base.extend<{ anonymousSpotify: HomePage; preAcceptConsent: boolean }>({
+  preAcceptConsent: [true, { option: true }],
+
+  // QA Insight: These win over playwright.config.ts; a spec can still change them with test.use()
+  storageState: { cookies: [], origins: [] },
+  locale: ANONYMOUS_SESSION_DEFAULTS.locale,
+  timezoneId: ANONYMOUS_SESSION_DEFAULTS.timezoneId,
+  geolocation: ANONYMOUS_SESSION_DEFAULTS.geolocation,
+  // QA Insight: Without the permission the pinned position is never handed to the page
+  permissions: ['geolocation'],
+
+  // QA Insight: The monitors are unused here on purpose; requesting them sets them up before homePage.goto()
+  anonymousSpotify: async ({ page, context, baseURL, preAcceptConsent, networkMonitor, performanceMonitor }, use) => {
+    const homePage = new HomePage(page);
+
+    await log.step('Open Spotify Web as an anonymous user', async () => {
+      // QA Best Practice: Nothing may survive from a previous test, not even the locale cookie
+      await context.clearCookies();
+      if (preAcceptConsent) {
+        await preAcceptCookieConsent(context, baseURL!);
+      }
+
+      await homePage.goto();
+
+      // QA Insight: An anonymous session always offers Log in in the header (collapsed behind the menu on phones)
+      await expect(homePage.headerLoginButton).toBeAttached();
+      log.info(`🕶️ Anonymous session ready: empty storage, consent ${preAcceptConsent ? 'accepted' : 'left to the user'}, locale pinned`);
+    });
+
+    await use(homePage);
+  },
+});
+
+export { expect } from '@playwright/test';
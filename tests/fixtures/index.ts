@@ -0,0 +1,36 @@
+import { mergeTests } from '@playwright/test';
+import { test as anonymousSpotifyTest } from './anonymousSpotify';
+import { test as networkMonitorTest } from './networkMonitor';
+import { test as performanceTest } from './performance';
+import { test as quarantineTest } from './quarantine';
+import { test as selectorSuggestionsTest } from './selectorSuggestions';
+import { test as stepLoggerTest } from './stepLogger';
+
+/**
+ * Behind the Test - Episode Fixtures
+ *
+ * Single `test` for the episode specs with every custom fixture merged in:
+ * - stepLogger (automatic): binds `log` from @helpers/logger to the running test
+ * - anonymousSpotify: clean unauthenticated session, HomePage ready to use
+ * - networkMonitor: request timeline and playback endpoint detection
+ * - performanceMonitor: Navigation Timing, LCP, CLS and long tasks against budgets
+ * - quarantine (automatic): annotates known-flaky tests from tests/data/quarantine.json
+ * - selectorSuggestions (automatic): ranks replacement selectors when a locator fails
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ */
+
+export const test = mergeTests(
+  stepLoggerTest,
+  anonymousSpotifyTest,
+  networkMonitorTest,
+  performanceTest,
+  quarantineTest,
+  selectorSuggestionsTest,
+);
+
+export { expect } from '@playwright/test';
+export { ANONYMOUS_SESSION_DEFAULTS, preAcceptCookieConsent } from './anonymousSpotify';
+export { NetworkMonitor } from './networkMonitor';
+export { PerformanceMonitor } from './performance';
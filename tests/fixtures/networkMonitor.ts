@@ -0,0 +1,150 @@
+import { Page, Request, TestInfo, test as base } from '@playwright/test';
+
+/**
+ * Behind the Test - Network Monitor Fixture
+ *
+ * Records every request the page makes, split into named windows (e.g.
+ * "play attempt"), and classifies playback, stream and DRM/license calls.
+ * An anonymous user pressing play must only ever get the login modal:
+ * none of those endpoints may be hit before login.
+ *
+ * The full timeline is attached to the report as JSON and as a readable
+ * text table when the test ends.
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ */
+
+export interface PlaybackEndpointPattern {
+  category: string;
+  pattern: RegExp;
+}
+
+/** Endpoints that mean audio playback actually started or was authorised. */
+export const PLAYBACK_ENDPOINT_PATTERNS: PlaybackEndpointPattern[] = [
+  { category: 'audio stream', pattern: /audio(-[a-z0-9]+)?\.(scdn|spotifycdn)\.(co|com)|\/audio\// },
+  { category: 'storage resolve', pattern: /\/storage-resolve\// },
+  { category: 'DRM license', pattern: /widevine-license|playplay|\/license\b/ },
+  { category: 'track playback', pattern: /\/track-playback\/|\/playback\// },
+  { category: 'player state', pattern: /\/v1\/me\/player|\/connect-state\// },
+];
+
+export interface NetworkEvent {
+  /** Milliseconds since the monitor started. */
+  offsetMs: number;
+  method: string;
+  url: string;
+  resourceType: string;
+  window?: string;
+  playbackCategory?: string;
+  status?: number;
+  failure?: string;
+}
+
+export function classifyPlaybackEndpoint(url: string): string | undefined {
+  return PLAYBACK_ENDPOINT_PATTERNS.find(({ pattern }) => pattern.test(url))?.category;
+}
+
+export class NetworkMonitor {
+  private readonly events: NetworkEvent[] = [];
+  private readonly eventsByRequest = new Map<Request, NetworkEvent>();
+  private readonly startedAt = Date.now();
+  private activeWindow?: string;
+
+  constructor(private readonly page: Page) {}
+
+  private readonly onRequest = (request: Request): void => {
+    const event: NetworkEvent = {
+      offsetMs: Date.now() - this.startedAt,
+      method: request.method(),
+      url: request.url(),
+      resourceType: request.resourceType(),
+      window: this.activeWindow,
+      playbackCategory: classifyPlaybackEndpoint(request.url()),
+    };
+    this.events.push(event);
+    this.eventsByRequest.set(request, event);
+  };
+
+  private readonly onRequestFinished = async (request: Request): Promise<void> => {
+    const event = this.eventsByRequest.get(request);
+    const response = await request.response().catch(() => null);
+    if (event && response) {
+      event.status = response.status();
+    }
+  };
+
+  private readonly onRequestFailed = (request: Request): void => {
+    const event = this.eventsByRequest.get(request);
+    if (event) {
+      event.failure = request.failure()?.errorText;
+    }
+  };
+
+  start(): void {
+    this.page.on('request', this.onRequest);
+    this.page.on('requestfinished', this.onRequestFinished);
+    this.page.on('requestfailed', this.onRequestFailed);
+  }
+
+  stop(): void {
+    this.page.off('request', this.onRequest);
+    this.page.off('requestfinished', this.onRequestFinished);
+    this.page.off('requestfailed', this.onRequestFailed);
+  }
+
+  /** Tags every request from now on with `name` until endWindow(). */
+  startWindow(name: string): void {
+    this.activeWindow = name;
+  }
+
+  endWindow(): void {
+    this.activeWindow = undefined;
+  }
+
+  requests(window?: string): NetworkEvent[] {
+    return window ? this.events.filter((event) => event.window === window) : [...this.events];
+  }
+
+  /** Playback, stream or license calls, optionally limited to one window. */
+  playbackCalls(window?: string): NetworkEvent[] {
+    return this.requests(window).filter((event) => event.playbackCategory !== undefined);
+  }
+
+  formatTimeline(): string {
+    const rows = this.events.map((event) => {
+      const outcome = event.failure ?? (event.status !== undefined ? String(event.status) : 'pending');
+      const flag = event.playbackCategory ? `⛔ ${event.playbackCategory}` : '';
+      return [
+        `+${event.offsetMs}ms`.padEnd(10),
+        (event.window ?? '-').padEnd(14),
+        event.method.padEnd(6),
+        outcome.padEnd(8),
+        event.resourceType.padEnd(10),
+        event.url.length > 120 ? `${event.url.slice(0, 117)}...` : event.url,
+        flag,
+      ].join(' ');
+    });
+    return ['offset     window         method status   type       url', ...rows].join('\n');
+  }
+
+  async attachTimeline(testInfo: TestInfo): Promise<void> {
+    await testInfo.attach('network timeline', { body: this.formatTimeline(), contentType: 'text/plain' });
+    await testInfo.attach('network timeline (json)', {
+      body: JSON.stringify({ playbackCalls: this.playbackCalls(), events: this.events }, null, 2),
+      contentType: 'application/json',
+    });
+  }
+}
+
+export const test = base.extend<{ networkMonitor: NetworkMonitor }>({
+  networkMonitor: async ({ page }, use, testInfo) => {
+    const monitor = new NetworkMonitor(page);
+    monitor.start();
+    await use(monitor);
+    monitor.stop();
+    await monitor.attachTimeline(testInfo);
+  },
+});
+
+export { expect } from '@playwright/test';
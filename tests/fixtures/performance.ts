@@ -0,0 +1,230 @@
+import { Page, TestInfo, expect, test as base } from '@playwright/test';
+import performanceBudgets from '@data/performance-budgets.json';
+import { log } from '@helpers/logger';
+
+/**
+ * Behind the Test - Performance Fixture
+ *
+ * Collects Navigation Timing, Largest Contentful Paint, Cumulative Layout
+ * Shift and long tasks at each journey checkpoint and checks them against
+ * the budgets for the current browser project in
+ * tests/data/performance-budgets.json. An exceeded budget fails softly,
+ * exactly like a functional assertion.
+ *
+ * Observers are installed before any page script runs, so buffered entries
+ * are never missed; a checkpoint on a document without them fails.
+ * Checkpoints reached without a document load (Spotify renders search
+ * results client-side) reuse the document's navigation timing; their long
+ * tasks are only the ones since the previous checkpoint.
+ *
+ * Every sample is attached to the report as flat JSON rows (one per metric)
+ * so runs can be appended to a time series without reshaping.
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ */
+
+export type PerformanceMetric = 'ttfb' | 'domContentLoaded' | 'load' | 'lcp' | 'cls' | 'longTaskTotal';
+
+export type PerformanceCheckpoint = keyof typeof performanceBudgets.projects.Chromium;
+
+export type PerformanceBudget = Partial<Record<PerformanceMetric, number>>;
+
+export interface PerformanceSample {
+  checkpoint: PerformanceCheckpoint;
+  url: string;
+  /** True when the checkpoint was reached without loading a new document. */
+  softNavigation: boolean;
+  longTaskCount: number | null;
+  /** null when the browser does not support the metric. */
+  metrics: Record<PerformanceMetric, number | null>;
+}
+
+export interface PerformanceTrendRow {
+  timestamp: string;
+  project: string;
+  test: string;
+  checkpoint: PerformanceCheckpoint;
+  metric: PerformanceMetric;
+  value: number | null;
+  budget: number | null;
+  withinBudget: boolean | null;
+}
+
+interface ObserverState {
+  lcp: number | null;
+  lcpSupported: boolean;
+  cls: number;
+  clsSupported: boolean;
+  longTasks: { startTime: number; duration: number }[];
+  longTasksSupported: boolean;
+}
+
+const METRICS: PerformanceMetric[] = ['ttfb', 'domContentLoaded', 'load', 'lcp', 'cls', 'longTaskTotal'];
+
+/** Runs inside the browser before any page script, once per document. */
+function installPerformanceObservers(): void {
+  const state: ObserverState = {
+    lcp: null,
+    lcpSupported: false,
+    cls: 0,
+    clsSupported: false,
+    longTasks: [],
+    longTasksSupported: false,
+  };
+  (window as unknown as { __behindTheTestPerformance: ObserverState }).__behindTheTestPerformance = state;
+
+  const supported = PerformanceObserver.supportedEntryTypes ?? [];
+
+  if (supported.includes('largest-contentful-paint')) {
+    state.lcpSupported = true;
+    new PerformanceObserver((list) => {
+      const entries = list.getEntries();
+      state.lcp = entries[entries.length - 1]?.startTime ?? state.lcp;
+    }).observe({ type: 'largest-contentful-paint', buffered: true });
+  }
+
+  if (supported.includes('layout-shift')) {
+    state.clsSupported = true;
+    new PerformanceObserver((list) => {
+      for (const entry of list.getEntries() as unknown as { value: number; hadRecentInput: boolean }[]) {
+        if (!entry.hadRecentInput) {
+          state.cls += entry.value;
+        }
+      }
+    }).observe({ type: 'layout-shift', buffered: true });
+  }
+
+  if (supported.includes('longtask')) {
+    state.longTasksSupported = true;
+    new PerformanceObserver((list) => {
+      for (const entry of list.getEntries()) {
+        state.longTasks.push({ startTime: entry.startTime, duration: entry.duration });
+      }
+    }).observe({ type: 'longtask', buffered: true });
+  }
+}
+
+export function performanceBudgetFor(projectName: string, checkpoint: PerformanceCheckpoint): PerformanceBudget | undefined {
+  const projects = performanceBudgets.projects as Record<string, Record<PerformanceCheckpoint, PerformanceBudget>>;
+  return projects[projectName]?.[checkpoint];
+}
+
+function formatMetric(metric: PerformanceMetric, value: number): string {
+  return metric === 'cls' ? value.toFixed(3) : `${Math.round(value)}ms`;
+}
+
+export class PerformanceMonitor {
+  private readonly samples: PerformanceSample[] = [];
+  private readonly trendRows: PerformanceTrendRow[] = [];
+  private lastDocument?: { timeOrigin: number; now: number };
+
+  constructor(
+    private readonly page: Page,
+    private readonly testInfo: TestInfo,
+  ) {}
+
+  async install(): Promise<void> {
+    await this.page.addInitScript(installPerformanceObservers);
+  }
+
+  /** Samples the current page and soft-fails on every metric over its budget. */
+  async measure(checkpoint: PerformanceCheckpoint): Promise<PerformanceSample> {
+    const raw = await this.page.evaluate(() => {
+      const navigation = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming | undefined;
+      const state = (window as unknown as { __behindTheTestPerformance?: ObserverState }).__behindTheTestPerformance;
+      return {
+        url: location.href,
+        observed: state !== undefined,
+        timeOrigin: performance.timeOrigin,
+        now: performance.now(),
+        ttfb: navigation ? navigation.responseStart : null,
+        domContentLoaded: navigation ? navigation.domContentLoadedEventEnd : null,
+        load: navigation && navigation.loadEventEnd > 0 ? navigation.loadEventEnd : null,
+        lcp: state?.lcpSupported ? state.lcp : null,
+        cls: state?.clsSupported ? state.cls : null,
+        longTasks: state?.longTasksSupported ? state.longTasks : null,
+      };
+    });
+
+    // QA Insight: No observer state means the document loaded before install(); null metrics would pass every budget
+    expect.soft(raw.observed, `performance observers missing at ${checkpoint}: the page loaded before install()`).toBe(true);
+
+    // QA Insight: Same document as the previous checkpoint means a client-side navigation
+    const softNavigation = this.lastDocument?.timeOrigin === raw.timeOrigin;
+    const since = softNavigation ? this.lastDocument!.now : 0;
+    const longTasks = raw.longTasks?.filter((task) => task.startTime >= since) ?? null;
+    this.lastDocument = { timeOrigin: raw.timeOrigin, now: raw.now };
+
+    const sample: PerformanceSample = {
+      checkpoint,
+      url: raw.url,
+      softNavigation,
+      longTaskCount: longTasks ? longTasks.length : null,
+      metrics: {
+        ttfb: raw.ttfb,
+        domContentLoaded: raw.domContentLoaded,
+        load: raw.load,
+        lcp: raw.lcp,
+        cls: raw.cls,
+        longTaskTotal: longTasks ? longTasks.reduce((total, task) => total + task.duration, 0) : null,
+      },
+    };
+    this.samples.push(sample);
+
+    const budget = performanceBudgetFor(this.testInfo.project.name, checkpoint);
+    if (!budget) {
+      log.warn(`⚠️ No performance budget for project "${this.testInfo.project.name}" at ${checkpoint}; metrics recorded only`);
+    }
+
+    const overBudget: string[] = [];
+    const timestamp = new Date().toISOString();
+    for (const metric of METRICS) {
+      const value = sample.metrics[metric];
+      const limit = budget?.[metric] ?? null;
+      const withinBudget = value === null || limit === null ? null : value <= limit;
+      if (withinBudget === false) {
+        overBudget.push(`${metric} ${formatMetric(metric, value!)} > ${formatMetric(metric, limit!)}`);
+      }
+      this.trendRows.push({
+        timestamp,
+        project: this.testInfo.project.name,
+        test: this.testInfo.title,
+        checkpoint,
+        metric,
+        value,
+        budget: limit,
+        withinBudget,
+      });
+    }
+
+    const summary = METRICS.filter((metric) => sample.metrics[metric] !== null)
+      .map((metric) => `${metric}=${formatMetric(metric, sample.metrics[metric]!)}`)
+      .join(' ');
+    log.info(`⏱️ Performance at ${checkpoint}${softNavigation ? ' (soft navigation)' : ''}: ${summary}`, { checkpoint, metrics: sample.metrics });
+
+    expect.soft(overBudget, `performance budget exceeded at ${checkpoint}`).toEqual([]);
+    return sample;
+  }
+
+  async attachReport(): Promise<void> {
+    if (this.samples.length === 0) {
+      return;
+    }
+    await this.testInfo.attach('performance metrics', {
+      body: JSON.stringify({ samples: this.samples, trend: this.trendRows }, null, 2),
+      contentType: 'application/json',
+    });
+  }
+}
+
+export const test = base.extend<{ performanceMonitor: PerformanceMonitor }>({
+  performanceMonitor: async ({ page }, use, testInfo) => {
+    const monitor = new PerformanceMonitor(page, testInfo);
+    await monitor.install();
+    await use(monitor);
+    await monitor.attachReport();
+  },
+});
+
+export { expect } from '@playwright/test';
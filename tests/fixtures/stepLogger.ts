@@ -0,0 +1,26 @@
+import { test as base } from '@playwright/test';
+import { StepLogger, beginTestLog, endTestLog } from '../helpers/logger';
+
+/**
+ * Behind the Test - Step Logger Fixture
+ *
+ * Automatic fixture that binds the structured logger (`log` from
+ * @helpers/logger) to the running test, so every entry carries the project,
+ * test and retry, and flushes entries written outside steps to the report.
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ */
+
+export const test = base.extend<{ stepLogger: StepLogger }>({
+  stepLogger: [
+    async ({}, use, testInfo) => {
+      const logger = beginTestLog(testInfo);
+      await use(logger);
+      await endTestLog(logger);
+    },
+    { auto: true },
+  ],
+});
+
+export { expect } from '@playwright/test';
@@ -0,0 +1,136 @@
+import AxeBuilder from '@axe-core/playwright';
+import { Locator, Page, TestInfo, expect } from '@playwright/test';
+import type { ImpactValue, Result } from 'axe-core';
+import accessibilityBaseline from '../data/accessibility-baseline.json';
+import { log } from './logger';
+
+/**
+ * Behind the Test - Accessibility Audit
+ *
+ * Runs axe-core (bundled through @axe-core/playwright, nothing is fetched
+ * at runtime) against the current page state and fails softly on new
+ * violations at or above the configured impact. Known violations listed in
+ * tests/data/accessibility-baseline.json are reported but tolerated.
+ *
+ * Configuration:
+ * - A11Y_IMPACT_THRESHOLD: minor | moderate | serious | critical (default serious)
+ * - A11Y_TAGS: comma separated axe tags (default wcag2a,wcag2aa,wcag21a,wcag21aa)
+ * - A11Y_DISABLED_RULES: comma separated axe rule ids to skip entirely
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ */
+
+const IMPACT_ORDER: ImpactValue[] = ['minor', 'moderate', 'serious', 'critical'];
+
+export type AccessibilityCheckpoint = keyof typeof accessibilityBaseline.checkpoints;
+
+export interface AccessibilitySettings {
+  impactThreshold: ImpactValue;
+  tags: string[];
+  disabledRules: string[];
+}
+
+function listFromEnv(value: string | undefined, fallback: string[]): string[] {
+  const list = value?.split(',').map((item) => item.trim()).filter(Boolean);
+  return list?.length ? list : fallback;
+}
+
+export function accessibilitySettings(): AccessibilitySettings {
+  const impactThreshold = (process.env.A11Y_IMPACT_THRESHOLD ?? 'serious') as ImpactValue;
+  if (!IMPACT_ORDER.includes(impactThreshold)) {
+    throw new Error(`Unknown A11Y_IMPACT_THRESHOLD "${impactThreshold}". Expected one of: ${IMPACT_ORDER.join(', ')}.`);
+  }
+  return {
+    impactThreshold,
+    tags: listFromEnv(process.env.A11Y_TAGS, ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa']),
+    disabledRules: listFromEnv(process.env.A11Y_DISABLED_RULES, []),
+  };
+}
+
+function meetsThreshold(impact: ImpactValue | null | undefined, threshold: ImpactValue): boolean {
+  return IMPACT_ORDER.indexOf(impact ?? 'minor') >= IMPACT_ORDER.indexOf(threshold);
+}
+
+function describeViolation(violation: Result): string {
+  const targets = violation.nodes.slice(0, 3).map((node) => node.target.join(' ')).join(', ');
+  return `[${violation.impact}] ${violation.id}: ${violation.help} (${violation.nodes.length} node(s): ${targets})`;
+}
+
+export interface AccessibilityAuditResult {
+  checkpoint: AccessibilityCheckpoint;
+  newViolations: Result[];
+  knownViolations: Result[];
+  belowThreshold: Result[];
+}
+
+/**
+ * Audits the page (or just `scope`) and soft-fails on violations that are
+ * at or above the threshold and not in the baseline for this checkpoint.
+ */
+export async function auditAccessibility(
+  page: Page,
+  testInfo: TestInfo,
+  checkpoint: AccessibilityCheckpoint,
+  scope?: Locator,
+): Promise<AccessibilityAuditResult> {
+  const settings = accessibilitySettings();
+  let builder = new AxeBuilder({ page }).withTags(settings.tags);
+  if (settings.disabledRules.length) {
+    builder = builder.disableRules(settings.disabledRules);
+  }
+  if (scope) {
+    // axe needs a CSS selector; tag the scoped element so it can be targeted
+    await scope.first().evaluate((element) => element.setAttribute('data-a11y-scope', ''), undefined, { timeout: 5000 });
+    builder = builder.include('[data-a11y-scope]');
+  }
+
+  const results = await builder.analyze();
+
+  if (scope) {
+    await scope.first().evaluate((element) => element.removeAttribute('data-a11y-scope'));
+  }
+
+  const known: Record<string, string> = accessibilityBaseline.checkpoints[checkpoint];
+  const audit: AccessibilityAuditResult = { checkpoint, newViolations: [], knownViolations: [], belowThreshold: [] };
+  for (const violation of results.violations) {
+    if (!meetsThreshold(violation.impact, settings.impactThreshold)) {
+      audit.belowThreshold.push(violation);
+    } else if (known[violation.id]) {
+      audit.knownViolations.push(violation);
+    } else {
+      audit.newViolations.push(violation);
+    }
+  }
+
+  await testInfo.attach(`accessibility: ${checkpoint}`, {
+    body: JSON.stringify({ settings, url: page.url(), ...audit }, null, 2),
+    contentType: 'application/json',
+  });
+
+  log.info(
+    `♿ Accessibility audit "${checkpoint}": ${audit.newViolations.length} new, ` +
+      `${audit.knownViolations.length} known, ${audit.belowThreshold.length} below "${settings.impactThreshold}"`,
+    { checkpoint, newViolations: audit.newViolations.length, knownViolations: audit.knownViolations.length },
+  );
+
+  expect.soft(audit.newViolations.map(describeViolation), `New accessibility violations at "${checkpoint}"`).toEqual([]);
+  return audit;
+}
+
+/**
+ * Presses Tab until `target` has focus, the way a keyboard-only user would.
+ * WebKit only tabs to links and buttons with Alt held, like Safari's
+ * "Press Tab to highlight each item" setting. Returns how many presses it
+ * took and throws if the element is not reachable.
+ */
+export async function tabUntilFocused(page: Page, target: Locator, maxPresses = 40): Promise<number> {
+  const key = page.context().browser()?.browserType().name() === 'webkit' ? 'Alt+Tab' : 'Tab';
+  for (let presses = 1; presses <= maxPresses; presses++) {
+    await page.keyboard.press(key);
+    if (await target.evaluate((element) => element === document.activeElement)) {
+      return presses;
+    }
+  }
+  throw new Error(`Element was not reachable with ${maxPresses} ${key} presses`);
+}
@@ -0,0 +1,102 @@
+import type { AlbumExpectation } from '@config/index';
+import type { AlbumPageContent } from '@pages/AlbumPage';
+
+/**
+ * Behind the Test - Album Page Contract
+ *
+ * Checks what an album page renders against an expected-data fixture:
+ * title, artist links, release year, track count, track titles and
+ * durations, and cover art. Every mismatch is reported as its own line so
+ * broken metadata or a missing track reads like a diff, not a stack trace.
+ *
+ * Fixtures live in tests/data/albums/<album>.json, one file per album,
+ * loaded and schema-checked by albumExpectations() in @config/index.
+ * Adding coverage for an album is a data change.
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ */
+
+export interface AlbumContractViolation {
+  field: string;
+  expected: string;
+  actual: string;
+}
+
+const DURATION_FORMAT = /^\d{1,2}:\d{2}(:\d{2})?$/;
+
+/**
+ * Checks that hold for any album page, with or without a fixture: tracks
+ * have names and well-formed durations, every row links an artist, the
+ * header count matches the rows, and the cover art actually loaded.
+ */
+export function validateAlbumStructure(content: AlbumPageContent): AlbumContractViolation[] {
+  const violations: AlbumContractViolation[] = [];
+  const violation = (field: string, expected: string, actual: string) => violations.push({ field, expected, actual });
+
+  if (!content.title) violation('title', 'non-empty', '""');
+  if (content.creatorLinks.length === 0) violation('artist links', 'at least one creator link', 'none');
+  if (!/^\d{4}$/.test(content.releaseYear)) violation('release year', 'four digit year', `"${content.releaseYear}"`);
+  if (content.tracks.length === 0) violation('track count', 'at least one track', '0');
+  if (content.headerTrackCount !== null && content.headerTrackCount !== content.tracks.length) {
+    violation('track count', `header says ${content.headerTrackCount}`, `${content.tracks.length} rows`);
+  }
+
+  content.tracks.forEach((track, index) => {
+    const field = `track ${index + 1}`;
+    if (!track.title) violation(`${field} title`, 'non-empty', '""');
+    if (!DURATION_FORMAT.test(track.duration)) violation(`${field} duration`, 'm:ss', `"${track.duration}"`);
+    if (track.artistLinks.length === 0) violation(`${field} artist links`, 'at least one artist link', 'none');
+  });
+
+  if (!content.coverArt) {
+    violation('cover art', 'image present', 'missing');
+  } else if (!content.coverArt.loaded) {
+    violation('cover art', 'image loaded', `broken (${content.coverArt.src})`);
+  }
+  return violations;
+}
+
+/** Structure checks plus an exact comparison with the album's fixture. */
+export function validateAlbumContract(content: AlbumPageContent, expected: AlbumExpectation): AlbumContractViolation[] {
+  const violations = validateAlbumStructure(content);
+  const violation = (field: string, expectedValue: string, actual: string) =>
+    violations.push({ field, expected: expectedValue, actual });
+
+  if (!content.url.includes(`/album/${expected.id}`)) violation('url', `/album/${expected.id}`, content.url);
+  if (content.title !== expected.title) violation('title', expected.title, content.title);
+  if (!content.creatorLinks.some((link) => link.name === expected.artist.name && link.href.includes(`/artist/${expected.artist.id}`))) {
+    violation('artist links', `${expected.artist.name} → /artist/${expected.artist.id}`, content.creatorLinks.map((link) => `${link.name} → ${link.href}`).join(', ') || 'none');
+  }
+  if (content.releaseYear !== String(expected.releaseYear)) violation('release year', String(expected.releaseYear), content.releaseYear);
+  if (content.tracks.length !== expected.tracks.length) {
+    violation('track count', String(expected.tracks.length), String(content.tracks.length));
+  }
+
+  expected.tracks.forEach((expectedTrack, index) => {
+    const field = `track ${index + 1}`;
+    const actual = content.tracks[index];
+    if (!actual) {
+      violation(field, `"${expectedTrack.title}" (${expectedTrack.duration})`, 'missing');
+      return;
+    }
+    if (actual.title !== expectedTrack.title) violation(`${field} title`, expectedTrack.title, actual.title);
+    if (actual.duration !== expectedTrack.duration) violation(`${field} duration`, expectedTrack.duration, actual.duration);
+    if (!actual.artistLinks.some((link) => link.href.includes(`/artist/${expected.artist.id}`))) {
+      violation(`${field} artist links`, `/artist/${expected.artist.id}`, actual.artistLinks.map((link) => link.href).join(', ') || 'none');
+    }
+  });
+
+  if (content.coverArt && content.coverArt.alt !== expected.title) violation('cover art alt', expected.title, content.coverArt.alt);
+  return violations;
+}
+
+export function formatViolations(albumTitle: string, violations: AlbumContractViolation[]): string {
+  if (violations.length === 0) {
+    return `✅ Album contract for "${albumTitle}" holds`;
+  }
+  return [
+    `❌ Album contract for "${albumTitle}": ${violations.length} violation(s)`,
+    ...violations.map((violation) => `   ${violation.field}: expected ${violation.expected}, got ${violation.actual}`),
+  ].join('\n');
+}
@@ -0,0 +1,124 @@
+import { Page } from '@playwright/test';
+
+/**
+ * Behind the Test - DOM Snapshots
+ *
+ * A compact, serialisable picture of what a page offers to a locator:
+ * every element with a test id, a role (explicit or implicit), an id or an
+ * aria-label, reduced to its tag, role, accessible name, text and the
+ * attributes selectors are usually built from. Small enough to keep one
+ * per step of a green run, rich enough to rank replacement selectors when
+ * a locator stops matching (see selectorSuggestions.ts).
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ */
+
+const DEFAULT_ELEMENT_LIMIT = 1500;
+const DEFAULT_TIMEOUT = 5000;
+
+export interface DomElementFingerprint {
+  tag: string;
+  role: string | null;
+  /** aria-label, aria-labelledby, alt, title or placeholder, else the element's own text. */
+  name: string;
+  text: string;
+  testId: string | null;
+  /** id, name, type, href, placeholder, aria-* and class, when present. */
+  attributes: Record<string, string>;
+  visible: boolean;
+}
+
+export interface DomSnapshot {
+  url: string;
+  capturedAt: string;
+  elements: DomElementFingerprint[];
+  /** Playwright aria snapshot (YAML) of the body; only captured for failures, it is large. */
+  ariaTree?: string;
+}
+
+/** Runs in the browser: must stay self-contained, Playwright serialises it as source. */
+function collectDomElements(limit: number): DomElementFingerprint[] {
+  const implicitRoles: Record<string, string> = {
+    a: 'link', button: 'button', select: 'combobox', textarea: 'textbox', img: 'img', dialog: 'dialog',
+    h1: 'heading', h2: 'heading', h3: 'heading', h4: 'heading', h5: 'heading', h6: 'heading',
+    nav: 'navigation', main: 'main', header: 'banner', footer: 'contentinfo', form: 'form',
+    ul: 'list', ol: 'list', li: 'listitem', table: 'table',
+  };
+  const inputRoles: Record<string, string> = { search: 'searchbox', checkbox: 'checkbox', radio: 'radio', button: 'button', submit: 'button', range: 'slider' };
+  const keptAttributes = ['id', 'name', 'type', 'href', 'placeholder', 'title', 'alt', 'lang', 'aria-label', 'aria-haspopup', 'aria-expanded', 'aria-controls', 'class'];
+  const clean = (value: string | null | undefined, max = 80) => (value ?? '').replace(/\s+/g, ' ').trim().slice(0, max);
+
+  const elements: DomElementFingerprint[] = [];
+  for (const element of Array.from(document.body.querySelectorAll('*'))) {
+    if (elements.length >= limit) {
+      break;
+    }
+    const tag = element.tagName.toLowerCase();
+    if (['script', 'style', 'noscript', 'template'].includes(tag) || element.closest('svg')) {
+      continue;
+    }
+    const testId = element.getAttribute('data-testid');
+    const role =
+      element.getAttribute('role') ??
+      (tag === 'input'
+        ? inputRoles[element.getAttribute('type') ?? 'text'] ?? 'textbox'
+        : tag === 'a' && !element.hasAttribute('href')
+          ? null
+          : implicitRoles[tag] ?? null);
+    if (!testId && !role && !element.id && !element.hasAttribute('aria-label')) {
+      continue;
+    }
+
+    const labelledBy = (element.getAttribute('aria-labelledby') ?? '')
+      .split(/\s+/)
+      .map((id) => (id ? document.getElementById(id)?.textContent : ''))
+      .join(' ');
+    const text = clean((element as HTMLElement).innerText ?? element.textContent);
+    const attributes: Record<string, string> = {};
+    for (const attribute of keptAttributes) {
+      const value = element.getAttribute(attribute);
+      if (value) {
+        attributes[attribute] = clean(value, 120);
+      }
+    }
+    const rect = element.getBoundingClientRect();
+
+    elements.push({
+      tag,
+      role,
+      name: clean(
+        element.getAttribute('aria-label') ||
+          clean(labelledBy) ||
+          element.getAttribute('alt') ||
+          element.getAttribute('title') ||
+          element.getAttribute('placeholder') ||
+          text,
+      ),
+      text,
+      testId,
+      attributes,
+      visible: rect.width > 0 && rect.height > 0 && getComputedStyle(element).visibility !== 'hidden',
+    });
+  }
+  return elements;
+}
+
+/** Fails after `timeout` ms instead of hanging on a page that stopped responding (e.g. after a test timeout). */
+export async function captureDomSnapshot(page: Page, options: { ariaTree?: boolean; limit?: number; timeout?: number } = {}): Promise<DomSnapshot> {
+  const timeout = options.timeout ?? DEFAULT_TIMEOUT;
+  let timer: NodeJS.Timeout | undefined;
+  const elements = await Promise.race([
+    page.evaluate(collectDomElements, options.limit ?? DEFAULT_ELEMENT_LIMIT),
+    new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`DOM snapshot took longer than ${timeout}ms`)), timeout);
+    }),
+  ]).finally(() => clearTimeout(timer));
+  const ariaTree = options.ariaTree ? await page.locator('body').ariaSnapshot({ timeout }).catch(() => undefined) : undefined;
+  return {
+    url: page.url(),
+    capturedAt: new Date().toISOString(),
+    elements,
+    ...(ariaTree ? { ariaTree } : {}),
+  };
+}
@@ -0,0 +1,99 @@
+import fs from 'fs';
+import path from 'path';
+import { Page, TestInfo } from '@playwright/test';
+import { slugify, testSlug } from './slugify';
+
+/**
+ * Behind the Test - Evidence Collector
+ *
+ * Names every capture per browser project, test and step so parallel
+ * projects never overwrite each other, attaches it to the Playwright
+ * report, and writes a manifest.json describing what was captured where.
+ *
+ * Layout: docs/evidence/<project>/<test>-<hash>[-retry<N>]/<NN>-<step>.png
+ * (the hash of the full title path keeps data-driven tests apart)
+ * (EVIDENCE_DIR overrides the docs/evidence root).
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ */
+
+export const EVIDENCE_ROOT = path.resolve(process.env.EVIDENCE_DIR ?? path.join('docs', 'evidence'));
+
+export interface EvidenceEntry {
+  sequence: number;
+  step: string;
+  file: string;
+  url: string;
+  timestamp: string;
+  locatorStrategy?: string;
+  overlay?: string;
+}
+
+export interface EvidenceManifest {
+  test: string;
+  project: string;
+  retry: number;
+  status?: string;
+  entries: EvidenceEntry[];
+}
+
+export interface CaptureOptions {
+  /** Strategy that located the element this capture documents, if any. */
+  locatorStrategy?: string;
+  /** Overlay that was intercepted and dismissed right after this capture. */
+  overlay?: string;
+  fullPage?: boolean;
+}
+
+export class EvidenceCollector {
+  readonly directory: string;
+  private readonly entries: EvidenceEntry[] = [];
+
+  constructor(
+    private readonly page: Page,
+    private readonly testInfo: TestInfo,
+  ) {
+    const testDirectory = testSlug(testInfo) + (testInfo.retry > 0 ? `-retry${testInfo.retry}` : '');
+    this.directory = path.join(EVIDENCE_ROOT, slugify(testInfo.project.name), testDirectory);
+  }
+
+  /** Screenshots the page for the given step and attaches it to the report. */
+  async capture(step: string, options: CaptureOptions = {}): Promise<EvidenceEntry> {
+    const sequence = this.entries.length + 1;
+    const fileName = `${String(sequence).padStart(2, '0')}-${slugify(step)}.png`;
+    const filePath = path.join(this.directory, fileName);
+
+    await this.page.screenshot({ path: filePath, fullPage: options.fullPage ?? true });
+    await this.testInfo.attach(`evidence: ${step}`, { path: filePath, contentType: 'image/png' });
+
+    const entry: EvidenceEntry = {
+      sequence,
+      step,
+      file: path.relative(process.cwd(), filePath),
+      url: this.page.url(),
+      timestamp: new Date().toISOString(),
+      ...(options.locatorStrategy ? { locatorStrategy: options.locatorStrategy } : {}),
+      ...(options.overlay ? { overlay: options.overlay } : {}),
+    };
+    this.entries.push(entry);
+    return entry;
+  }
+
+  /** Writes manifest.json next to the captures and attaches it. Call from afterEach. */
+  async writeManifest(): Promise<EvidenceManifest> {
+    const manifest: EvidenceManifest = {
+      test: this.testInfo.titlePath.slice(1).join(' › '),
+      project: this.testInfo.project.name,
+      retry: this.testInfo.retry,
+      status: this.testInfo.status,
+      entries: this.entries,
+    };
+
+    fs.mkdirSync(this.directory, { recursive: true });
+    const manifestPath = path.join(this.directory, 'manifest.json');
+    fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+    await this.testInfo.attach('evidence manifest', { path: manifestPath, contentType: 'application/json' });
+    return manifest;
+  }
+}
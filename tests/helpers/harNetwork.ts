@@ -0,0 +1,132 @@
+import fs from 'fs';
+import path from 'path';
+import { BrowserContext, Request, TestInfo } from '@playwright/test';
+import { log } from './logger';
+import { slugify, testSlug } from './slugify';
+
+/**
+ * Behind the Test - HAR Record & Replay
+ *
+ * Captures the network traffic of one live run into versioned HAR fixtures
+ * and serves later runs exclusively from them, so the Episode 1 journey is
+ * deterministic and runs without network access.
+ *
+ * Modes (SPOTIFY_NETWORK):
+ * - live:   no interception, the default
+ * - record: every request goes to the network and is written to the HAR
+ * - replay: requests are answered from the HAR only; anything that was not
+ *           recorded is aborted and reported by name when the test ends
+ *
+ * Fixtures live in tests/fixtures/har/<version>/<scenario>/<project>/<test>-<hash>.har.
+ * Bump SPOTIFY_HAR_VERSION when re-recording against a changed site so old
+ * and new recordings can be compared side by side.
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ */
+
+export type NetworkMode = 'live' | 'record' | 'replay';
+
+export const HAR_FIXTURES_DIR = path.join(__dirname, '..', 'fixtures', 'har');
+export const HAR_FIXTURE_VERSION = process.env.SPOTIFY_HAR_VERSION ?? 'v1';
+
+export function resolveNetworkMode(): NetworkMode {
+  const mode = process.env.SPOTIFY_NETWORK ?? 'live';
+  if (mode !== 'live' && mode !== 'record' && mode !== 'replay') {
+    throw new Error(`Unknown SPOTIFY_NETWORK mode "${mode}". Expected one of: live, record, replay.`);
+  }
+  return mode;
+}
+
+/**
+ * Fails the run up front when replay is asked for but nothing was ever
+ * recorded: HARs are not committed, so a fresh checkout has to record once.
+ * Otherwise every test would fail on its own missing fixture.
+ */
+export function assertHarFixturesRecorded(): void {
+  if (resolveNetworkMode() !== 'replay') {
+    return;
+  }
+
+  const versionDir = path.join(HAR_FIXTURES_DIR, HAR_FIXTURE_VERSION);
+  const recorded = fs.existsSync(versionDir) && fs.readdirSync(versionDir, { recursive: true }).some((file) => String(file).endsWith('.har'));
+  if (!recorded) {
+    throw new Error(
+      `No HAR fixtures recorded under ${path.relative(process.cwd(), versionDir)}. ` +
+        'Record first (npm run test:record), then replay with: npm run test:replay',
+    );
+  }
+}
+
+/** One HAR per test and browser project, so data-driven tests never overwrite each other. */
+export function harFixturePath(scenario: string, testInfo: Pick<TestInfo, 'title' | 'titlePath' | 'project'>): string {
+  return path.join(HAR_FIXTURES_DIR, HAR_FIXTURE_VERSION, scenario, slugify(testInfo.project.name), `${testSlug(testInfo)}.har`);
+}
+
+export class HarReplayMissError extends Error {
+  constructor(readonly harPath: string, readonly missedRequests: string[]) {
+    super(
+      [
+        `${missedRequests.length} request(s) were not recorded in ${path.relative(process.cwd(), harPath)}:`,
+        ...missedRequests.map((request) => `  - ${request}`),
+        'The fixture is stale or incomplete. Re-record it with: npm run test:record',
+      ].join('\n'),
+    );
+    this.name = 'HarReplayMissError';
+  }
+}
+
+function describeRequest(request: Request): string {
+  return `${request.method()} ${request.url()}`;
+}
+
+export class HarNetworkSession {
+  private readonly missedRequests: string[] = [];
+
+  private constructor(
+    readonly mode: NetworkMode,
+    readonly harPath: string,
+  ) {}
+
+  /**
+   * Wires the browser context for the current SPOTIFY_NETWORK mode.
+   * Call from beforeEach, then assertAllRequestsRecorded() from afterEach.
+   */
+  static async attach(context: BrowserContext, testInfo: TestInfo, scenario: string): Promise<HarNetworkSession> {
+    const session = new HarNetworkSession(resolveNetworkMode(), harFixturePath(scenario, testInfo));
+
+    if (session.mode === 'record') {
+      fs.mkdirSync(path.dirname(session.harPath), { recursive: true });
+      // The HAR is flushed to disk when Playwright closes the context after the test
+      await context.routeFromHAR(session.harPath, { update: true, updateContent: 'embed', updateMode: 'minimal' });
+      log.info(`🎙️ Recording network traffic to ${path.relative(process.cwd(), session.harPath)}`);
+    }
+
+    if (session.mode === 'replay') {
+      if (!fs.existsSync(session.harPath)) {
+        throw new Error(
+          `No HAR fixture found at ${path.relative(process.cwd(), session.harPath)} for project "${testInfo.project.name}". ` +
+            'Record one first with: npm run test:record',
+        );
+      }
+
+      // Registered first so it only sees what the HAR could not answer
+      await context.route('**/*', async (route) => {
+        const description = describeRequest(route.request());
+        session.missedRequests.push(description);
+        log.error(`❌ HAR replay miss: ${description}`);
+        await route.abort('internetdisconnected');
+      });
+      await context.routeFromHAR(session.harPath, { notFound: 'fallback' });
+      log.info(`📼 Replaying network traffic from ${path.relative(process.cwd(), session.harPath)}`);
+    }
+
+    return session;
+  }
+
+  assertAllRequestsRecorded(): void {
+    if (this.mode === 'replay' && this.missedRequests.length > 0) {
+      throw new HarReplayMissError(this.harPath, [...new Set(this.missedRequests)]);
+    }
+  }
+}
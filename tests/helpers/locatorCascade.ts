@@ -0,0 +1,135 @@
+import { Locator, test } from '@playwright/test';
+import { log } from './logger';
+
+/**
+ * Behind the Test - Cascading Locator Resolver
+ *
+ * Replaces hand-rolled try/catch ladders with an ordered list of named
+ * strategies. The first strategy whose locator becomes visible within its
+ * own timeout wins. Every resolution is attached to the running test as a
+ * `locator-cascade` record, which the locator telemetry reporter turns into
+ * a per-run fall-through report so DOM drift shows up before the last
+ * fallback breaks too.
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ */
+
+export const LOCATOR_CASCADE_ATTACHMENT = 'locator-cascade';
+
+const DEFAULT_STRATEGY_TIMEOUT = 3000;
+
+export interface LocatorStrategy {
+  /** Human readable name, reported in telemetry and evidence. */
+  name: string;
+  /**
+   * The candidate locator, or a function computing it. Functions may return
+   * null to signal the strategy does not apply without waiting for a timeout.
+   */
+  locator: Locator | (() => Promise<Locator | null>);
+  /** How long to wait for this strategy's locator to become visible. */
+  timeout?: number;
+}
+
+export interface LocatorResolution {
+  locator: Locator;
+  strategy: string;
+  strategyIndex: number;
+}
+
+export interface LocatorCascadeRecord {
+  target: string;
+  strategies: string[];
+  matchedStrategy: string | null;
+  matchedIndex: number;
+  durationMs: number;
+  /** log.step() the resolution happened in. */
+  step?: string;
+}
+
+export interface LocatorStrategyFailure {
+  strategy: string;
+  reason: string;
+  /** Locator description, e.g. getByTestId('search-input'); absent when the strategy did not apply. */
+  locator?: string;
+}
+
+export class LocatorCascadeError extends Error {
+  constructor(readonly target: string, readonly failures: LocatorStrategyFailure[]) {
+    super(
+      [
+        `No strategy located "${target}":`,
+        // Same "Locator:" line as expect() errors, so selector suggestions can read both
+        ...failures.flatMap(({ strategy, reason, locator }) => [`  - ${strategy}: ${reason}`, ...(locator ? [`    Locator: ${locator}`] : [])]),
+      ].join('\n'),
+    );
+    this.name = 'LocatorCascadeError';
+  }
+}
+
+async function recordResolution(record: LocatorCascadeRecord): Promise<void> {
+  let testInfo;
+  try {
+    testInfo = test.info();
+  } catch {
+    // Resolved outside a running test (e.g. global setup): nothing to attach to
+    return;
+  }
+  const step = log.currentStep();
+  await testInfo.attach(LOCATOR_CASCADE_ATTACHMENT, {
+    body: JSON.stringify(step ? { ...record, step } : record),
+    contentType: 'application/json',
+  });
+}
+
+function firstLine(error: unknown): string {
+  return (error instanceof Error ? error.message : String(error)).split('\n')[0];
+}
+
+/**
+ * Tries each strategy in order and returns the first visible match.
+ * Throws LocatorCascadeError naming every strategy that fell through.
+ */
+export async function resolveLocator(target: string, strategies: LocatorStrategy[]): Promise<LocatorResolution> {
+  const startedAt = Date.now();
+  const failures: LocatorStrategyFailure[] = [];
+
+  for (const [index, strategy] of strategies.entries()) {
+    let locator: Locator | null = null;
+    try {
+      locator = typeof strategy.locator === 'function' ? await strategy.locator() : strategy.locator;
+      if (!locator) {
+        failures.push({ strategy: strategy.name, reason: 'not applicable' });
+        continue;
+      }
+
+      await locator.waitFor({ state: 'visible', timeout: strategy.timeout ?? DEFAULT_STRATEGY_TIMEOUT });
+
+      if (index > 0) {
+        log.warn(`⚠️ ${target}: primary strategy "${strategies[0].name}" fell through, matched "${strategy.name}"`, {
+          target,
+          matchedStrategy: strategy.name,
+        });
+      }
+      await recordResolution({
+        target,
+        strategies: strategies.map(({ name }) => name),
+        matchedStrategy: strategy.name,
+        matchedIndex: index,
+        durationMs: Date.now() - startedAt,
+      });
+      return { locator, strategy: strategy.name, strategyIndex: index };
+    } catch (error) {
+      failures.push({ strategy: strategy.name, reason: firstLine(error), ...(locator ? { locator: String(locator) } : {}) });
+    }
+  }
+
+  await recordResolution({
+    target,
+    strategies: strategies.map(({ name }) => name),
+    matchedStrategy: null,
+    matchedIndex: -1,
+    durationMs: Date.now() - startedAt,
+  });
+  throw new LocatorCascadeError(target, failures);
+}
@@ -0,0 +1,169 @@
+import { TestInfo, test } from '@playwright/test';
+
+/**
+ * Behind the Test - Structured Step Logger
+ *
+ * Replaces free-form console narration with entries that carry a level and
+ * their context: project, test, retry and the step they were written in.
+ * Entries written inside log.step() are attached to that step in the HTML
+ * report as a `log` attachment, so a failed WebKit run is read step by step
+ * instead of grepping interleaved stdout from parallel workers.
+ *
+ * Console output is controlled by environment variables:
+ * - LOG_LEVEL: debug | info (default) | warn | error | silent
+ * - LOG_FORMAT: pretty (default) | json (one JSON entry per line)
+ *
+ * Attachments always keep every level, whatever LOG_LEVEL says.
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ */
+
+export const LOG_ATTACHMENT = 'log';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+type LogThreshold = LogLevel | 'silent';
+
+const LEVEL_ORDER: Record<LogThreshold, number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 };
+
+/** Called as a log.step() ends, still inside it, with the error its body threw (if any). */
+export type StepEndListener = (step: string, error: unknown) => Promise<void>;
+
+export interface LogEntry {
+  time: string;
+  level: LogLevel;
+  message: string;
+  project: string | null;
+  test: string | null;
+  retry: number | null;
+  /** Enclosing log.step() titles, outermost first; null outside any step. */
+  step: string | null;
+  data?: Record<string, unknown>;
+}
+
+function consoleThreshold(): LogThreshold {
+  const level = (process.env.LOG_LEVEL ?? 'info').toLowerCase();
+  return level in LEVEL_ORDER ? (level as LogThreshold) : 'info';
+}
+
+function formatForConsole(entry: LogEntry): string {
+  if (process.env.LOG_FORMAT === 'json') {
+    return JSON.stringify(entry);
+  }
+  const context = [entry.project && `[${entry.project}]`, entry.step].filter(Boolean).join(' ');
+  return `${entry.level.toUpperCase().padEnd(5)} ${context ? `${context} › ` : ''}${entry.message}`;
+}
+
+export class StepLogger {
+  private readonly steps: { title: string; entries: LogEntry[] }[] = [];
+  private readonly testEntries: LogEntry[] = [];
+  private readonly stepEndListeners: StepEndListener[] = [];
+
+  constructor(private readonly testInfo: TestInfo | null) {}
+
+  /** Title path of the step currently running, e.g. "Search › Wait for results". */
+  currentStep(): string | null {
+    return this.steps.length > 0 ? this.steps.map((step) => step.title).join(' › ') : null;
+  }
+
+  write(level: LogLevel, message: string, data?: Record<string, unknown>): void {
+    const entry: LogEntry = {
+      time: new Date().toISOString(),
+      level,
+      message,
+      project: this.testInfo?.project.name ?? null,
+      test: this.testInfo?.title ?? null,
+      retry: this.testInfo?.retry ?? null,
+      step: this.currentStep(),
+      ...(data ? { data } : {}),
+    };
+    if (this.testInfo) {
+      (this.steps.at(-1)?.entries ?? this.testEntries).push(entry);
+    }
+    if (LEVEL_ORDER[level] >= LEVEL_ORDER[consoleThreshold()]) {
+      console.log(formatForConsole(entry));
+    }
+  }
+
+  /** Lets fixtures observe every step of this test; listener failures are logged, never thrown. */
+  onStepEnd(listener: StepEndListener): void {
+    this.stepEndListeners.push(listener);
+  }
+
+  /** test.step() that also attaches the entries written inside it to the step. */
+  async step<T>(title: string, body: () => Promise<T>): Promise<T> {
+    return test.step(title, async (stepInfo) => {
+      const frame = { title, entries: [] as LogEntry[] };
+      this.steps.push(frame);
+      let failure: unknown;
+      try {
+        return await body();
+      } catch (error) {
+        failure = error;
+        throw error;
+      } finally {
+        await this.notifyStepEnd(failure);
+        this.steps.pop();
+        if (frame.entries.length > 0) {
+          await stepInfo.attach(LOG_ATTACHMENT, { body: JSON.stringify(frame.entries, null, 2), contentType: 'application/json' });
+        }
+      }
+    });
+  }
+
+  private async notifyStepEnd(error: unknown): Promise<void> {
+    const step = this.currentStep()!;
+    for (const listener of this.stepEndListeners) {
+      try {
+        await listener(step, error);
+      } catch (listenerError) {
+        this.write('debug', `Step listener failed: ${listenerError instanceof Error ? listenerError.message : listenerError}`);
+      }
+    }
+  }
+
+  /** Attaches whatever was logged outside of any step (hooks, fixtures) to the test. */
+  async flush(): Promise<void> {
+    if (this.testInfo && this.testEntries.length > 0) {
+      await this.testInfo.attach(LOG_ATTACHMENT, {
+        body: JSON.stringify(this.testEntries.splice(0), null, 2),
+        contentType: 'application/json',
+      });
+    }
+  }
+}
+
+const detachedLogger = new StepLogger(null);
+let activeLogger: StepLogger | null = null;
+
+/** Binds a logger to the running test; called by the stepLogger fixture. */
+export function beginTestLog(testInfo: TestInfo): StepLogger {
+  activeLogger = new StepLogger(testInfo);
+  return activeLogger;
+}
+
+export async function endTestLog(logger: StepLogger): Promise<void> {
+  await logger.flush();
+  if (activeLogger === logger) {
+    activeLogger = null;
+  }
+}
+
+function current(): StepLogger {
+  return activeLogger ?? detachedLogger;
+}
+
+/**
+ * Logger for specs, page objects and helpers. Routes to the running test's
+ * logger (one test at a time per worker), or prints without context outside
+ * a test.
+ */
+export const log = {
+  debug: (message: string, data?: Record<string, unknown>) => current().write('debug', message, data),
+  info: (message: string, data?: Record<string, unknown>) => current().write('info', message, data),
+  warn: (message: string, data?: Record<string, unknown>) => current().write('warn', message, data),
+  error: (message: string, data?: Record<string, unknown>) => current().write('error', message, data),
+  step: <T>(title: string, body: () => Promise<T>) => current().step(title, body),
+  currentStep: () => current().currentStep(),
+};
@@ -0,0 +1,92 @@
+import { Locator, Page } from '@playwright/test';
+import { EvidenceCollector } from './evidence';
+import { log } from './logger';
+
+/**
+ * Behind the Test - Overlay Handlers
+ *
+ * Spotify shows region and device specific interruptions between page load
+ * and the first click: the OneTrust cookie consent banner in the EU, an
+ * "open in app" prompt on touch devices and Premium promo popups. Any of
+ * them can cover language-selection-button and break the journey.
+ *
+ * OverlayGuard registers a Playwright locator handler per known overlay.
+ * Whenever one is visible before an action, it is captured into the
+ * evidence trail, dismissed, and the action carries on.
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ */
+
+export interface KnownOverlay {
+  name: string;
+  locator(page: Page): Locator;
+  dismiss(page: Page): Promise<void>;
+}
+
+export const KNOWN_OVERLAYS: KnownOverlay[] = [
+  {
+    name: 'cookie consent',
+    locator: (page) => page.locator('#onetrust-banner-sdk'),
+    // QA Insight: Accepting matches what anonymousSpotify pre-accepts, so both paths reach the same state
+    dismiss: (page) => page.locator('#onetrust-accept-btn-handler').click(),
+  },
+  {
+    name: 'open in app prompt',
+    locator: (page) => page.getByTestId('open-in-app-prompt'),
+    dismiss: (page) => page.getByTestId('open-in-app-dismiss').click(),
+  },
+  {
+    name: 'promo popup',
+    locator: (page) => page.getByTestId('promo-modal'),
+    dismiss: (page) => page.getByTestId('promo-close-button').click(),
+  },
+];
+
+export interface OverlayInterception {
+  overlay: string;
+  url: string;
+  timestamp: string;
+  evidenceFile?: string;
+}
+
+export class OverlayGuard {
+  readonly interceptions: OverlayInterception[] = [];
+
+  private constructor(
+    private readonly page: Page,
+    private readonly evidence?: EvidenceCollector,
+  ) {}
+
+  /**
+   * Registers a handler for every known overlay. Call from beforeEach, before
+   * the first navigation, so no overlay can slip in unhandled.
+   */
+  static async register(page: Page, evidence?: EvidenceCollector, overlays: KnownOverlay[] = KNOWN_OVERLAYS): Promise<OverlayGuard> {
+    const guard = new OverlayGuard(page, evidence);
+    for (const overlay of overlays) {
+      await page.addLocatorHandler(overlay.locator(page), () => guard.intercept(overlay));
+    }
+    return guard;
+  }
+
+  private async intercept(overlay: KnownOverlay): Promise<void> {
+    log.info(`🛡️ Overlay intercepted: ${overlay.name} on ${this.page.url()}`, { overlay: overlay.name });
+
+    // Evidence: The overlay as the user saw it, before it was dismissed
+    const entry = await this.evidence?.capture(`overlay ${overlay.name}`, { overlay: overlay.name, fullPage: false });
+    this.interceptions.push({
+      overlay: overlay.name,
+      url: this.page.url(),
+      timestamp: new Date().toISOString(),
+      ...(entry ? { evidenceFile: entry.file } : {}),
+    });
+
+    await overlay.dismiss(this.page);
+  }
+
+  /** Names of the overlays dismissed so far, in order, without repeats. */
+  interceptedOverlays(): string[] {
+    return [...new Set(this.interceptions.map((interception) => interception.overlay))];
+  }
+}
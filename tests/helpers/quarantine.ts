@@ -0,0 +1,39 @@
+import quarantineData from '../data/quarantine.json';
+
+/**
+ * Behind the Test - Quarantine List
+ *
+ * Known-flaky tests listed in tests/data/quarantine.json. Quarantine marks,
+ * it never hides: the test keeps running, its result keeps counting, and
+ * both the report annotation and the flakiness reporter say why it is
+ * under watch.
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ */
+
+export const QUARANTINE_ANNOTATION = 'quarantine';
+
+export interface QuarantineEntry {
+  /** Matches any part of the full title path ("file › describe › test"). */
+  title: string;
+  /** Limits the entry to one Playwright project, e.g. "WebKit". */
+  project?: string;
+  reason: string;
+  /** ISO date the test was quarantined, so stale entries stand out. */
+  since?: string;
+}
+
+export function quarantineEntries(): QuarantineEntry[] {
+  return quarantineData.tests as QuarantineEntry[];
+}
+
+export function findQuarantine(titlePath: string, project: string): QuarantineEntry | undefined {
+  return quarantineEntries().find(
+    (entry) => titlePath.includes(entry.title) && (!entry.project || entry.project === project),
+  );
+}
+
+export function describeQuarantine(entry: QuarantineEntry): string {
+  return entry.since ? `${entry.reason} (since ${entry.since})` : entry.reason;
+}
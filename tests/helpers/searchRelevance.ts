@@ -0,0 +1,75 @@
+import type { SearchRelevanceCase } from '@config/index';
+
+/**
+ * Behind the Test - Search Relevance
+ *
+ * Compares what Spotify ranked against the expectations in
+ * tests/data/search-relevance.json and turns the differences into a report
+ * a reviewer can read at a glance: which album slipped out of the top N,
+ * to which position, and which section rendered out of order.
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ */
+
+export interface AlbumRankingDifference {
+  album: string;
+  expectedWithin: number;
+  /** 1-based position in the Albums section, null when not rendered at all. */
+  actualPosition: number | null;
+}
+
+export interface SearchRelevanceReport {
+  caseId: string;
+  query: string;
+  topArtist: { expected: string; actual: string | null };
+  albums: { expectedTopN: number; actual: string[]; differences: AlbumRankingDifference[] };
+  sections: { expected: string[]; actual: string[]; inOrder: boolean };
+}
+
+/** NFC and trimmed, so "Björk" typed and "Björk" rendered never differ by encoding. */
+function normalizeText(value: string): string {
+  return value.normalize('NFC').trim();
+}
+
+export function compareAlbumRanking(expected: SearchRelevanceCase['expectedAlbums'], actualTitles: string[]): AlbumRankingDifference[] {
+  const actual = actualTitles.map(normalizeText);
+  return expected.titles
+    .map((album) => {
+      const index = actual.indexOf(normalizeText(album));
+      return { album, expectedWithin: expected.topN, actualPosition: index === -1 ? null : index + 1 };
+    })
+    .filter((difference) => difference.actualPosition === null || difference.actualPosition > expected.topN);
+}
+
+/** True when the expected sections render in that relative order; unexpected extra sections are ignored. */
+export function sectionsInOrder(expected: string[], actualSections: string[]): boolean {
+  const expectedNormalized = expected.map(normalizeText);
+  const relevant = actualSections.map(normalizeText).filter((section) => expectedNormalized.includes(section));
+  return relevant.length === expectedNormalized.length && relevant.every((section, index) => section === expectedNormalized[index]);
+}
+
+export function formatRelevanceReport(report: SearchRelevanceReport): string {
+  const topArtistOk = report.topArtist.actual !== null && normalizeText(report.topArtist.actual) === normalizeText(report.topArtist.expected);
+  const lines = [
+    `Search relevance for "${report.query}" (${report.caseId})`,
+    `${topArtistOk ? '✅' : '❌'} Top result: expected "${report.topArtist.expected}", got "${report.topArtist.actual ?? 'nothing'}"`,
+  ];
+
+  if (report.albums.differences.length === 0) {
+    lines.push(`✅ Albums: all expected titles within the top ${report.albums.expectedTopN}`);
+  }
+  for (const difference of report.albums.differences) {
+    lines.push(
+      difference.actualPosition === null
+        ? `❌ Album "${difference.album}": expected in top ${difference.expectedWithin}, not in results`
+        : `❌ Album "${difference.album}": expected in top ${difference.expectedWithin}, ranked #${difference.actualPosition}`,
+    );
+  }
+  lines.push(`   Albums as ranked: ${report.albums.actual.map((title, index) => `#${index + 1} ${title}`).join(', ') || 'none'}`);
+
+  lines.push(
+    `${report.sections.inOrder ? '✅' : '❌'} Sections: expected ${report.sections.expected.join(' → ')}, got ${report.sections.actual.join(' → ') || 'none'}`,
+  );
+  return lines.join('\n');
+}
@@ -0,0 +1,372 @@
+import fs from 'fs';
+import path from 'path';
+import { TestInfo } from '@playwright/test';
+import { DomElementFingerprint, DomSnapshot } from './domSnapshot';
+import { slugify, testSlug } from './slugify';
+
+/**
+ * Behind the Test - Selector Suggestions
+ *
+ * When `getByTestId('search-input')` stops matching, the failure says what
+ * was not found, not what the page offers instead. Every green run stores
+ * the elements each step saw (the selector baseline); when a locator fails,
+ * the element it used to match is looked up in that baseline and the
+ * failure snapshot is ranked against it by role, accessible name/text and
+ * attribute similarity.
+ *
+ * Suggestions are attached to the report for a human to review. Nothing
+ * here ever swaps a selector: a renamed test id might just as well be a
+ * regression the test is right to fail on.
+ *
+ * Baselines: .selector-baselines/<profile>/<project>/<test>-<hash>.json
+ * (SELECTOR_BASELINE_DIR overrides the root).
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ */
+
+export const SELECTOR_SUGGESTIONS_ATTACHMENT = 'selector-suggestions';
+
+export const SELECTOR_BASELINE_DIR = path.resolve(process.env.SELECTOR_BASELINE_DIR ?? '.selector-baselines');
+
+const MAX_CANDIDATES = 5;
+const MIN_SCORE = 0.5;
+const WEIGHTS = { role: 0.25, text: 0.35, attributes: 0.4 };
+
+export interface BaselineElement extends DomElementFingerprint {
+  /** log.step() titles the element was present at the end of. */
+  steps: string[];
+}
+
+export interface SelectorBaseline {
+  test: string;
+  project: string;
+  capturedAt: string;
+  elements: BaselineElement[];
+}
+
+export interface TextHint {
+  source: string;
+  regex: boolean;
+  flags?: string;
+}
+
+/** A locator named in an error message, with what it was looking for. */
+export interface FailedLocator {
+  description: string;
+  testIds: string[];
+  roles: { role: string; name?: TextHint }[];
+  texts: TextHint[];
+}
+
+export interface SelectorCandidate {
+  selector: string;
+  score: number;
+  /** Per-criterion similarity in 0..1; null when the reference had nothing to compare. */
+  similarity: { role: number | null; text: number | null; attributes: number | null };
+  /** Elements in the failure snapshot the suggested selector matches; more than 1 needs narrowing. */
+  matches: number;
+  element: DomElementFingerprint;
+}
+
+export interface SelectorSuggestionReport {
+  failedLocator: string;
+  step: string | null;
+  url: string;
+  /** The failing locator still matches something: more likely timing or visibility than a renamed selector. */
+  stillMatches: boolean;
+  reference:
+    | { source: 'last green run'; capturedAt: string; steps: string[]; element: DomElementFingerprint }
+    | { source: 'failed locator'; element: DomElementFingerprint };
+  candidates: SelectorCandidate[];
+}
+
+export function baselineFile(testInfo: Pick<TestInfo, 'title' | 'titlePath' | 'project'>, profile: string): string {
+  return path.join(SELECTOR_BASELINE_DIR, profile, slugify(testInfo.project.name), `${testSlug(testInfo)}.json`);
+}
+
+export function readBaseline(file: string): SelectorBaseline | null {
+  return fs.existsSync(file) ? (JSON.parse(fs.readFileSync(file, 'utf-8')) as SelectorBaseline) : null;
+}
+
+export function writeBaseline(file: string, baseline: SelectorBaseline): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(baseline));
+}
+
+/** Adds a step's snapshot to the run's baseline; an element seen in several steps is stored once. */
+export function mergeIntoBaseline(elements: Map<string, BaselineElement>, step: string, snapshot: DomSnapshot): void {
+  for (const element of snapshot.elements) {
+    const key = [element.tag, element.role, element.testId, element.name].join('|');
+    const known = elements.get(key);
+    if (!known) {
+      elements.set(key, { ...element, steps: [step] });
+    } else if (!known.steps.includes(step)) {
+      known.steps.push(step);
+    }
+  }
+}
+
+const STRING = `'((?:[^'\\\\]|\\\\.)*)'`;
+const REGEX = `\\/((?:[^/\\\\]|\\\\.)+)\\/([a-z]*)`;
+const TEXT_ARGUMENT = `(?:${STRING}|${REGEX})`;
+
+function unescape(value: string): string {
+  return value.replace(/\\(.)/g, '$1');
+}
+
+function textHint(match: RegExpMatchArray, offset: number): TextHint {
+  return match[offset] !== undefined
+    ? { source: unescape(match[offset]), regex: false }
+    : { source: match[offset + 1], regex: true, flags: match[offset + 2] };
+}
+
+function hintsFrom(description: string): FailedLocator {
+  const testIds = [
+    ...[...description.matchAll(new RegExp(`getByTestId\\(${STRING}\\)`, 'g'))].map((match) => unescape(match[1])),
+    ...[...description.matchAll(/\[data-testid="([^"]+)"\]/g)].map((match) => match[1]),
+  ];
+  const roles = [
+    ...[...description.matchAll(new RegExp(`getByRole\\('([\\w-]+)'(?:, \\{ name: ${TEXT_ARGUMENT})?`, 'g'))].map((match) => ({
+      role: match[1],
+      ...(match[2] !== undefined || match[3] !== undefined ? { name: textHint(match, 2) } : {}),
+    })),
+    ...[...description.matchAll(/\[role="([\w-]+)"\]/g)].map((match) => ({ role: match[1] })),
+  ];
+  const texts = [...description.matchAll(new RegExp(`(?:getBy(?:Text|Label|Placeholder|Title|AltText)\\(|hasText: )${TEXT_ARGUMENT}`, 'g'))].map(
+    (match) => textHint(match, 1),
+  );
+  return { description, testIds, roles, texts };
+}
+
+/** Every locator an error names, from expect() ("Locator: ...") and action call logs ("waiting for ..."). */
+export function failedLocatorsFromError(message: string): FailedLocator[] {
+  const plain = message.replace(/\u001b\[[\d;]*m/g, '');
+  const descriptions = [
+    ...[...plain.matchAll(/^\s*Locator: (.+)$/gm)].map((match) => match[1]),
+    ...[...plain.matchAll(/waiting for (.+?)(?: to be (?:visible|hidden|attached|detached))?$/gm)].map((match) => match[1]),
+  ].map((description) => description.trim());
+
+  return [...new Set(descriptions)]
+    .filter((description) => /^(?:getBy\w+|locator)\(/.test(description))
+    .map(hintsFrom)
+    .filter((failed) => failed.testIds.length + failed.roles.length + failed.texts.length > 0);
+}
+
+function matchesText(hint: TextHint, value: string): boolean {
+  if (!hint.regex) {
+    return value.toLowerCase().includes(hint.source.toLowerCase());
+  }
+  try {
+    return new RegExp(hint.source, hint.flags).test(value);
+  } catch {
+    return false;
+  }
+}
+
+/** How specifically an element matches the failed locator: 3 test id, 2 role and name, 1 role or text, 0 not at all. */
+function specificity(element: DomElementFingerprint, failed: FailedLocator): number {
+  if (element.testId && failed.testIds.includes(element.testId)) {
+    return 3;
+  }
+  const role = failed.roles.find((hint) => hint.role === element.role);
+  if (role?.name && matchesText(role.name, element.name)) {
+    return 2;
+  }
+  if ((role && !role.name) || failed.texts.some((hint) => matchesText(hint, element.text))) {
+    return 1;
+  }
+  return 0;
+}
+
+function readableText(hint: TextHint | undefined): string {
+  return hint ? (hint.regex ? hint.source.replace(/[\\^$.*+?()[\]{}|]/g, ' ').trim() : hint.source) : '';
+}
+
+/** What the locator itself says about its target, when no green run saw it. */
+function referenceFromLocator(failed: FailedLocator): DomElementFingerprint {
+  const name = readableText(failed.roles.find((hint) => hint.name)?.name ?? failed.texts[0]);
+  return {
+    tag: '',
+    role: failed.roles[0]?.role ?? null,
+    name,
+    text: readableText(failed.texts[0]) || name,
+    testId: failed.testIds[0] ?? null,
+    attributes: {},
+    visible: true,
+  };
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function tokens(value: string): Set<string> {
+  return new Set(value.split(/[^\p{L}\p{N}]+/u).filter(Boolean));
+}
+
+/** Best of edit distance and token overlap, so both "search-input"/"search-field" and reordered words score. */
+function similarity(a: string, b: string): number {
+  const left = a.toLowerCase().trim();
+  const right = b.toLowerCase().trim();
+  if (!left || !right) {
+    return left === right ? 1 : 0;
+  }
+  const leftTokens = tokens(left);
+  const rightTokens = tokens(right);
+  const shared = [...leftTokens].filter((token) => rightTokens.has(token)).length;
+  const jaccard = shared / (new Set([...leftTokens, ...rightTokens]).size || 1);
+  return Math.max(jaccard, 1 - levenshtein(left, right) / Math.max(left.length, right.length));
+}
+
+function compare(reference: DomElementFingerprint, candidate: DomElementFingerprint): Pick<SelectorCandidate, 'score' | 'similarity'> {
+  const attributeScores = [
+    ...(reference.testId ? [similarity(reference.testId, candidate.testId ?? '')] : []),
+    ...Object.entries(reference.attributes).map(([attribute, value]) => similarity(value, candidate.attributes[attribute] ?? '')),
+  ];
+  const scores = {
+    role: reference.role ? (reference.role === candidate.role ? 1 : 0) : null,
+    text: reference.name ? similarity(reference.name, candidate.name) : null,
+    attributes: attributeScores.length > 0 ? attributeScores.reduce((sum, score) => sum + score, 0) / attributeScores.length : null,
+  };
+
+  let weighted = 0;
+  let total = 0;
+  for (const criterion of Object.keys(WEIGHTS) as (keyof typeof WEIGHTS)[]) {
+    if (scores[criterion] !== null) {
+      weighted += WEIGHTS[criterion] * scores[criterion];
+      total += WEIGHTS[criterion];
+    }
+  }
+  // QA Insight: A hidden element is rarely the replacement for one the test could see
+  const score = (total > 0 ? weighted / total : 0) * (candidate.visible ? 1 : 0.8);
+  return { score: Math.round(score * 100) / 100, similarity: scores };
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/** CSS.escape() as specified in CSSOM; suggestions are built in Node, which does not have it. */
+function cssEscape(value: string): string {
+  const chars = Array.from(value);
+  return chars
+    .map((char, index) => {
+      const code = char.codePointAt(0)!;
+      if (code === 0) {
+        return '\uFFFD';
+      }
+      const leadingDigit = /[0-9]/.test(char) && (index === 0 || (index === 1 && chars[0] === '-'));
+      if ((code >= 0x01 && code <= 0x1f) || code === 0x7f || leadingDigit) {
+        return `\\${code.toString(16)} `;
+      }
+      if (char === '-' && index === 0 && chars.length === 1) {
+        return `\\${char}`;
+      }
+      return code >= 0x80 || /[-_a-zA-Z0-9]/.test(char) ? char : `\\${char}`;
+    })
+    .join('');
+}
+
+function selectorFor(element: DomElementFingerprint, snapshot: DomSnapshot): Pick<SelectorCandidate, 'selector' | 'matches'> {
+  const count = (predicate: (other: DomElementFingerprint) => boolean) => snapshot.elements.filter(predicate).length;
+  if (element.testId) {
+    return { selector: `getByTestId(${quote(element.testId)})`, matches: count((other) => other.testId === element.testId) };
+  }
+  if (element.role && element.name && element.name.length <= 50) {
+    return {
+      selector: `getByRole(${quote(element.role)}, { name: ${quote(element.name)} })`,
+      matches: count((other) => other.role === element.role && other.name === element.name),
+    };
+  }
+  if (element.attributes.id) {
+    // QA Insight: Ids are not unique on every page, count them like any other strategy
+    return {
+      selector: `locator(${quote(`#${cssEscape(element.attributes.id)}`)})`,
+      matches: count((other) => other.attributes.id === element.attributes.id),
+    };
+  }
+  return { selector: `getByText(${quote(element.text)})`, matches: count((other) => other.text === element.text) };
+}
+
+/** Ranks elements of the failure snapshot as replacements for the failed locator. */
+export function suggestSelectors(
+  failed: FailedLocator,
+  failure: DomSnapshot,
+  baseline: SelectorBaseline | null,
+  step: string | null,
+): SelectorSuggestionReport {
+  // QA Strategy: Prefer how the element looked when this same step last passed
+  const known = (baseline?.elements ?? [])
+    .map((element) => ({ element, specificity: specificity(element, failed) }))
+    .filter(({ specificity }) => specificity > 0)
+    .sort(
+      (a, b) =>
+        b.specificity - a.specificity ||
+        Number(!!step && b.element.steps.includes(step)) - Number(!!step && a.element.steps.includes(step)) ||
+        Number(b.element.visible) - Number(a.element.visible),
+    )[0]?.element;
+
+  const reference: SelectorSuggestionReport['reference'] =
+    known && baseline
+      ? { source: 'last green run', capturedAt: baseline.capturedAt, steps: known.steps, element: known }
+      : { source: 'failed locator', element: referenceFromLocator(failed) };
+
+  const stillMatches = failure.elements.some((element) => specificity(element, failed) >= (failed.testIds.length > 0 ? 3 : 2));
+
+  const candidates = failure.elements
+    .filter((element) => element.text || element.testId || element.name)
+    .filter((element) => specificity(element, failed) < 2)
+    .map((element) => ({ ...selectorFor(element, failure), ...compare(reference.element, element), element }))
+    .filter((candidate) => candidate.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .filter((candidate, index, all) => all.findIndex((other) => other.selector === candidate.selector) === index)
+    .slice(0, MAX_CANDIDATES);
+
+  return { failedLocator: failed.description, step, url: failure.url, stillMatches, reference, candidates };
+}
+
+function describeElement(element: DomElementFingerprint): string {
+  const testId = element.testId ? ` [data-testid=${element.testId}]` : '';
+  return `${element.role ?? element.tag} "${element.name}"${testId}${element.visible ? '' : ' (hidden)'}`;
+}
+
+function ratio(value: number | null): string {
+  return value === null ? 'n/a' : value.toFixed(2);
+}
+
+export function formatSuggestions(reports: SelectorSuggestionReport[]): string {
+  const lines = ['🩹 Selector suggestions - ranked, never applied automatically. Review, then update the page object.'];
+  for (const report of reports) {
+    lines.push('', `❌ ${report.failedLocator}`, `   Step: ${report.step ?? '(outside test steps)'}`, `   URL: ${report.url}`);
+    lines.push(
+      report.reference.source === 'last green run'
+        ? `   Last green run (${report.reference.capturedAt}): ${describeElement(report.reference.element)}`
+        : '   Not found in the last green run; ranked against what the locator asks for',
+    );
+    if (report.stillMatches) {
+      lines.push('   ⚠️ The locator still matches an element on the page: check timing, visibility or overlays before changing it');
+    }
+    if (report.candidates.length === 0) {
+      lines.push('   No element on the page is similar enough to suggest');
+    }
+    for (const [index, candidate] of report.candidates.entries()) {
+      const { role, text, attributes } = candidate.similarity;
+      lines.push(
+        `   ${index + 1}. ${candidate.selector}  score ${candidate.score.toFixed(2)} ` +
+          `(role ${ratio(role)}, text ${ratio(text)}, attributes ${ratio(attributes)})` +
+          `${candidate.matches > 1 ? `, matches ${candidate.matches} elements` : ''}`,
+        `      ${describeElement(candidate.element)}`,
+      );
+    }
+  }
+  return lines.join('\n');
+}
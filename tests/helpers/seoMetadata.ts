@@ -0,0 +1,225 @@
+import { Page } from '@playwright/test';
+import type { SeoExpectations, SeoPageType } from '@config/index';
+import { localeCatalog } from '../data/locales';
+
+/**
+ * Behind the Test - SEO & Share Metadata
+ *
+ * Anonymous pages exist largely for search engines and link previews, so
+ * what sits in <head> is part of the contract: title, description, robots,
+ * canonical URL, hreflang alternates, Open Graph and Twitter card tags and
+ * schema.org JSON-LD. readPageMetadata() takes it from the served document,
+ * validatePageMetadata() checks it against the page type's expectations in
+ * tests/data/seo-metadata.json and reports every mismatch as its own line,
+ * like the album contract.
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ */
+
+export interface PageMetadataSnapshot {
+  url: string;
+  title: string;
+  lang: string;
+  /** Content of every `<meta name>` / `<meta property>`, keyed by name or property. */
+  meta: Record<string, string[]>;
+  /** href attributes as written, so relative URLs are caught. */
+  canonical: string[];
+  alternates: { hreflang: string; href: string }[];
+  /** Raw text of every JSON-LD block, parsed by the validator. */
+  jsonLd: string[];
+}
+
+export interface MetadataTarget {
+  pageType: SeoPageType;
+  /** URL the page was opened with, relative to baseURL; its path without the query is the expected canonical. */
+  path: string;
+  /** Entity the page is about (artist, album, search query); title, description and JSON-LD must name it. */
+  entityName?: string;
+}
+
+export interface MetadataViolation {
+  field: string;
+  expected: string;
+  actual: string;
+}
+
+const SCHEMA_ORG = /^https?:\/\/schema\.org\/?$/;
+
+/** Runs in the browser: must stay self-contained, Playwright serialises it as source. */
+function collectHeadMetadata(): PageMetadataSnapshot {
+  const meta: Record<string, string[]> = {};
+  for (const element of Array.from(document.querySelectorAll('meta[name], meta[property]'))) {
+    const key = element.getAttribute('property') ?? element.getAttribute('name') ?? '';
+    (meta[key] ??= []).push(element.getAttribute('content') ?? '');
+  }
+  return {
+    url: location.href,
+    title: document.title,
+    lang: document.documentElement.lang,
+    meta,
+    canonical: Array.from(document.querySelectorAll('link[rel="canonical"]')).map((link) => link.getAttribute('href') ?? ''),
+    alternates: Array.from(document.querySelectorAll('link[rel="alternate"][hreflang]')).map((link) => ({
+      hreflang: link.getAttribute('hreflang') ?? '',
+      href: link.getAttribute('href') ?? '',
+    })),
+    jsonLd: Array.from(document.querySelectorAll('script[type="application/ld+json"]')).map((script) => script.textContent ?? ''),
+  };
+}
+
+export async function readPageMetadata(page: Page): Promise<PageMetadataSnapshot> {
+  return page.evaluate(collectHeadMetadata);
+}
+
+function absoluteUrl(value: string): URL | null {
+  try {
+    return new URL(value);
+  } catch {
+    return null;
+  }
+}
+
+/** `/intl-pt/album/<id>` → `/album/<id>`. */
+function withoutLocalePrefix(pathname: string): string {
+  return pathname.replace(/^\/intl-[a-z]{2}(?=\/|$)/, '') || '/';
+}
+
+/** JSON-LD blocks may hold one node, an array of nodes or an @graph. */
+function jsonLdNodes(value: unknown): Record<string, unknown>[] {
+  if (Array.isArray(value)) {
+    return value.flatMap(jsonLdNodes);
+  }
+  if (typeof value !== 'object' || value === null) {
+    return [];
+  }
+  const node = value as Record<string, unknown>;
+  const graph = Array.isArray(node['@graph']) ? jsonLdNodes(node['@graph']).map((entry) => ({ '@context': node['@context'], ...entry })) : [];
+  return [node, ...graph];
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Checks the snapshot against the expectations for `target.pageType`.
+ * `origin` is the environment's baseURL origin: canonical, alternate and
+ * share URLs must be absolute and on it.
+ */
+export function validatePageMetadata(
+  snapshot: PageMetadataSnapshot,
+  target: MetadataTarget,
+  expectations: SeoExpectations,
+  origin: string,
+): MetadataViolation[] {
+  const violations: MetadataViolation[] = [];
+  const violation = (field: string, expected: string, actual: string) => violations.push({ field, expected, actual });
+  const expected = expectations.pageTypes[target.pageType];
+  const first = (key: string) => snapshot.meta[key]?.[0]?.trim() ?? '';
+  const mentions = (value: string) => !target.entityName || value.toLowerCase().includes(target.entityName.toLowerCase());
+
+  // Title and description
+  if (!snapshot.title.includes(expected.titleIncludes)) violation('title', `contains "${expected.titleIncludes}"`, `"${snapshot.title}"`);
+  if (!mentions(snapshot.title)) violation('title', `names "${target.entityName}"`, `"${snapshot.title}"`);
+  const description = first('description');
+  const { minLength, maxLength } = expectations.description;
+  if (!description) {
+    violation('description', 'present', 'missing');
+  } else {
+    if (description.length < minLength || description.length > maxLength) {
+      violation('description length', `${minLength}..${maxLength} characters`, String(description.length));
+    }
+    if (!mentions(description)) violation('description', `names "${target.entityName}"`, `"${description}"`);
+  }
+  if ((snapshot.meta.description?.length ?? 0) > 1) violation('description', 'exactly one', String(snapshot.meta.description!.length));
+
+  // Robots
+  const noindex = (snapshot.meta.robots ?? []).some((content) => /noindex/i.test(content));
+  if (expected.indexable && noindex) violation('robots', 'indexable', `"${snapshot.meta.robots!.join(', ')}"`);
+  if (!expected.indexable && !noindex) violation('robots', 'noindex', snapshot.meta.robots?.join(', ') || 'missing');
+
+  // Canonical: one absolute, self-referencing URL on the environment's origin, without query string (share tokens)
+  const openedPath = new URL(target.path, origin).pathname;
+  const expectedCanonical = new URL(openedPath, origin).href;
+  if (snapshot.canonical.length !== 1) {
+    violation('canonical', 'exactly one <link rel="canonical">', String(snapshot.canonical.length));
+  }
+  const canonical = snapshot.canonical[0] ?? '';
+  const canonicalUrl = absoluteUrl(canonical);
+  if (snapshot.canonical.length > 0 && (!canonicalUrl || canonicalUrl.href !== expectedCanonical)) {
+    violation('canonical', expectedCanonical, canonical || '""');
+  }
+
+  // hreflang: every catalog locale plus x-default, each pointing at this page's locale version
+  if (expected.hreflang) {
+    const unprefixedPath = withoutLocalePrefix(openedPath);
+    for (const hreflang of ['x-default', ...localeCatalog.map(({ code }) => code)]) {
+      const alternates = snapshot.alternates.filter((alternate) => alternate.hreflang.toLowerCase() === hreflang.toLowerCase());
+      const field = `hreflang ${hreflang}`;
+      if (alternates.length !== 1) {
+        violation(field, 'exactly one alternate', String(alternates.length));
+        continue;
+      }
+      const alternateUrl = absoluteUrl(alternates[0].href);
+      if (!alternateUrl || alternateUrl.origin !== new URL(origin).origin) {
+        violation(field, `absolute URL on ${new URL(origin).origin}`, alternates[0].href || '""');
+      } else if (hreflang === 'x-default' ? alternateUrl.pathname !== unprefixedPath : withoutLocalePrefix(alternateUrl.pathname) !== unprefixedPath) {
+        violation(field, `a locale version of ${unprefixedPath}`, alternateUrl.pathname);
+      }
+    }
+    if (canonicalUrl && !snapshot.alternates.some((alternate) => absoluteUrl(alternate.href)?.href === canonicalUrl.href)) {
+      violation('hreflang', 'the canonical URL among the alternates', 'missing');
+    }
+  }
+
+  // Open Graph and Twitter cards
+  for (const key of [...expectations.requiredOpenGraph, ...expectations.requiredTwitter]) {
+    if (!first(key)) violation(key, 'present', 'missing');
+  }
+  if (first('og:type') && first('og:type') !== expected.ogType) violation('og:type', expected.ogType, first('og:type'));
+  if (first('twitter:card') && first('twitter:card') !== expected.twitterCard) violation('twitter:card', expected.twitterCard, first('twitter:card'));
+  if (first('og:url') && canonical && first('og:url') !== canonical) violation('og:url', `canonical ${canonical}`, first('og:url'));
+  for (const key of ['og:title', 'twitter:title']) {
+    if (first(key) && !mentions(first(key))) violation(key, `names "${target.entityName}"`, `"${first(key)}"`);
+  }
+  for (const key of ['og:image', 'twitter:image']) {
+    if (first(key) && !absoluteUrl(first(key))) violation(key, 'absolute URL', first(key));
+  }
+
+  // JSON-LD structured data
+  const nodes: Record<string, unknown>[] = [];
+  snapshot.jsonLd.forEach((text, index) => {
+    try {
+      nodes.push(...jsonLdNodes(JSON.parse(text)));
+    } catch (error) {
+      violation(`JSON-LD block ${index + 1}`, 'valid JSON', (error as Error).message);
+    }
+  });
+  if (expected.jsonLd) {
+    const { type, requiredProperties } = expected.jsonLd;
+    const node = nodes.find((entry) => entry['@type'] === type || (Array.isArray(entry['@type']) && entry['@type'].includes(type)));
+    if (!node) {
+      violation('JSON-LD', `a ${type} node`, nodes.map((entry) => String(entry['@type'])).join(', ') || 'none');
+    } else {
+      if (!SCHEMA_ORG.test(String(node['@context'] ?? ''))) violation(`JSON-LD ${type} @context`, 'https://schema.org', String(node['@context']));
+      for (const property of requiredProperties) {
+        if (isEmpty(node[property])) violation(`JSON-LD ${type}.${property}`, 'present', 'missing');
+      }
+      if (target.entityName && typeof node.name === 'string' && node.name !== target.entityName) {
+        violation(`JSON-LD ${type}.name`, target.entityName, node.name);
+      }
+      if (canonical && typeof node.url === 'string' && node.url !== canonical) violation(`JSON-LD ${type}.url`, `canonical ${canonical}`, node.url);
+    }
+  }
+  return violations;
+}
+
+export function formatMetadataViolations(label: string, violations: MetadataViolation[]): string {
+  if (violations.length === 0) {
+    return `✅ Metadata for ${label} holds`;
+  }
+  return [
+    `❌ Metadata for ${label}: ${violations.length} violation(s)`,
+    ...violations.map((violation) => `   ${violation.field}: expected ${violation.expected}, got ${violation.actual}`),
+  ].join('\n');
+}
@@ -0,0 +1,23 @@
+import { createHash } from 'crypto';
+import type { TestInfo } from '@playwright/test';
+
+/** File-system safe, lowercase slug used for evidence and fixture names. */
+export function slugify(value: string, maxLength = 80): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, maxLength);
+}
+
+/**
+ * Per-test artifact name: the slugged title, readable, plus a short hash of
+ * the full title path. Data-driven titles only differ past the slug's length
+ * limit and describes reuse test titles, so the title alone collides.
+ */
+export function testSlug(testInfo: Pick<TestInfo, 'title' | 'titlePath'>, maxLength = 80): string {
+  const hash = createHash('sha1').update(testInfo.titlePath.join(' › ')).digest('hex').slice(0, 8);
+  return `${slugify(testInfo.title, maxLength - hash.length - 1).replace(/-$/, '')}-${hash}`;
+}
@@ -0,0 +1,49 @@
+import { test } from '@playwright/test';
+import { log } from './logger';
+
+/**
+ * Behind the Test - Soft Fallback Recorder
+ *
+ * A `catch` block that only logs a warning keeps the journey green while
+ * the thing it tolerated goes unnoticed. recordSoftFallback() still logs
+ * the warning, and also attaches a `soft-fallback` record to the running
+ * test, which the flakiness reporter counts per test and per step across
+ * runs. A fallback path taken on every run is not flakiness, it is a bug.
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ */
+
+export const SOFT_FALLBACK_ATTACHMENT = 'soft-fallback';
+
+export interface SoftFallbackRecord {
+  message: string;
+  /** First line of the swallowed error, when there was one. */
+  error?: string;
+  /** log.step() the fallback happened in; test-level attachments do not say. */
+  step?: string;
+}
+
+export async function recordSoftFallback(message: string, error?: unknown): Promise<void> {
+  const record: SoftFallbackRecord = { message };
+  if (error !== undefined) {
+    record.error = (error instanceof Error ? error.message : String(error)).split('\n')[0];
+  }
+  const step = log.currentStep();
+  if (step) {
+    record.step = step;
+  }
+  log.warn(`⚠️ ${message}`, { softFallback: true, ...(record.error ? { error: record.error } : {}) });
+
+  let testInfo;
+  try {
+    testInfo = test.info();
+  } catch {
+    // Outside a running test (e.g. global setup): the warning is all we can do
+    return;
+  }
+  await testInfo.attach(SOFT_FALLBACK_ATTACHMENT, {
+    body: JSON.stringify(record),
+    contentType: 'application/json',
+  });
+}
@@ -0,0 +1,30 @@
+/**
+ * Behind the Test - Test Tags
+ *
+ * Every test is tagged with the areas it covers, so a subset runs with
+ * `--grep` (see the test:<area> scripts in package.json). @smoke marks the
+ * few tests short enough for every push; nightly runs everything.
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ */
+
+export const TAG = {
+  smoke: '@smoke',
+  i18n: '@i18n',
+  search: '@search',
+  authBoundary: '@auth-boundary',
+  album: '@album',
+  a11y: '@a11y',
+  overlays: '@overlays',
+  deepLinks: '@deep-links',
+  seo: '@seo',
+  unit: '@unit',
+} as const;
+
+export type Tag = (typeof TAG)[keyof typeof TAG];
+
+/** Area tags, plus @smoke when this data-driven case is the one that runs on every push. */
+export function tagsWithSmoke(isSmoke: boolean, ...areas: Tag[]): Tag[] {
+  return isSmoke ? [TAG.smoke, ...areas] : areas;
+}
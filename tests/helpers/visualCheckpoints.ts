@@ -0,0 +1,45 @@
+import { Locator, Page, expect, test } from '@playwright/test';
+import { log } from './logger';
+
+/**
+ * Behind the Test - Visual Checkpoints
+ *
+ * Compares key journey states against committed baselines. Baselines are
+ * stored per target (live/mock), browser project and platform — see
+ * snapshotPathTemplate in playwright.config.ts — and are only ever
+ * rewritten on purpose with `npm run test:update-snapshots`.
+ *
+ * A missing baseline fails the checkpoint, so comparison is opt-in until a
+ * profile's baselines are committed: SPOTIFY_VISUAL_CHECKPOINTS=1 (or
+ * `npm run test:visual`) turns it on, and an --update-snapshots run always
+ * takes the screenshots so it can write them.
+ *
+ * Assertions are soft: a layout regression fails the test, but the
+ * journey keeps going so later checkpoints still report.
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ */
+
+export interface VisualCheckpointOptions {
+  /** Dynamic regions to paint over, usually a page object's visualMasks(). */
+  mask?: Locator[];
+}
+
+export function visualCheckpointsEnabled(): boolean {
+  const { updateSnapshots } = test.info().config;
+  return process.env.SPOTIFY_VISUAL_CHECKPOINTS === '1' || updateSnapshots === 'all' || updateSnapshots === 'changed';
+}
+
+export async function expectVisualCheckpoint(
+  target: Page | Locator,
+  name: string[],
+  options: VisualCheckpointOptions = {},
+): Promise<void> {
+  const snapshotName = [...name.slice(0, -1), `${name[name.length - 1]}.png`];
+  if (!visualCheckpointsEnabled()) {
+    log.debug(`📷 Visual checkpoint ${snapshotName.join('/')} skipped; set SPOTIFY_VISUAL_CHECKPOINTS=1 to compare`);
+    return;
+  }
+  await expect.soft(target).toHaveScreenshot(snapshotName, { mask: options.mask ?? [] });
+}
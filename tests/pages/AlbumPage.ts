@@ -0,0 +1,182 @@
+import { Locator, Page, expect } from '@playwright/test';
+import { LocatorResolution, LocatorStrategy, resolveLocator } from '@helpers/locatorCascade';
+import { anyLocaleLabel } from '@data/locales';
+import { LoginModal } from './LoginModal';
+import { SpotifyPage } from './SpotifyPage';
+
+/** The album play button: exactly "Play", in any catalog language. */
+const PLAY_LABEL = new RegExp(`^(?:${anyLocaleLabel((locale) => locale.playButtonLabel).source})$`, 'i');
+/** Track row buttons: "Play <track> by <artist>", in each language's own word order. */
+const TRACK_PLAY_LABEL = new RegExp(
+  `^(?:${anyLocaleLabel((locale) => locale.playTrackLabel).source.replace(/\\\{(?:track|artist)\\\}/g, '.+')})$`,
+  'i',
+);
+
+export interface AlbumLink {
+  name: string;
+  href: string;
+}
+
+export interface AlbumTrackRow {
+  title: string;
+  duration: string;
+  artistLinks: AlbumLink[];
+}
+
+/** Everything the album page states about the album, as rendered. */
+export interface AlbumPageContent {
+  url: string;
+  title: string;
+  creatorLinks: AlbumLink[];
+  releaseYear: string;
+  /** Track count claimed by the header summary ("10 songs, 43 min"), null if absent. */
+  headerTrackCount: number | null;
+  tracks: AlbumTrackRow[];
+  coverArt: { src: string; alt: string; loaded: boolean } | null;
+}
+
+export class AlbumPage extends SpotifyPage {
+  readonly heading: Locator;
+  readonly tracklist: Locator;
+  readonly trackRows: Locator;
+  readonly mainPlayButton: Locator;
+  readonly actionBarPlayButton: Locator;
+  readonly buttons: Locator;
+  readonly keyElements: Locator;
+  readonly creatorLinks: Locator;
+  readonly releaseYear: Locator;
+  readonly coverArt: Locator;
+  readonly entityHeader: Locator;
+  readonly saveButton: Locator;
+
+  constructor(page: Page) {
+    super(page);
+    this.heading = page.locator('h1').or(page.locator('[data-testid="album-title"]'));
+    this.tracklist = page.locator('[data-testid="tracklist"], .tracklist, [role="grid"]');
+    this.trackRows = page.locator('[data-testid="tracklist-row"]');
+    // i18n: "Play" in every catalog language, so localized journeys find the button too
+    this.mainPlayButton = page.getByRole('button', { name: PLAY_LABEL }).first();
+    // Position: play leads the action bar above the tracklist, whatever its label
+    this.actionBarPlayButton = page
+      .locator('[data-testid="action-bar"], [data-testid="action-bar-row"]')
+      .getByRole('button')
+      .first();
+    this.buttons = page.getByRole('button');
+    this.keyElements = page.locator('h1, [data-testid="album-title"], [data-testid="tracklist"]');
+    this.creatorLinks = page.locator('[data-testid="creator-link"]');
+    this.releaseYear = page.locator('[data-testid="release-year"], [data-testid="release-date"]').first();
+    this.coverArt = page.locator('[data-testid="cover-art"], [data-testid="cover-art-image"]').first();
+    this.entityHeader = page.locator('[data-testid="entity-header"]');
+    this.saveButton = page.locator('[data-testid="action-bar"] [data-testid="add-button"]').or(
+      page.getByRole('button', { name: /save to your library/i })
+    ).first();
+  }
+
+  /** Places where Spotify renders the album name, most specific first. */
+  titleStrategies(albumTitle: string): LocatorStrategy[] {
+    return [
+      { name: 'h1 with album title', locator: this.page.locator('h1').filter({ hasText: albumTitle }), timeout: 2000 },
+      { name: 'album-title test id', locator: this.page.locator('[data-testid="album-title"]').filter({ hasText: albumTitle }), timeout: 2000 },
+      { name: 'entity-title test id', locator: this.page.locator('[data-testid="entity-title"]').filter({ hasText: albumTitle }), timeout: 2000 },
+      { name: 'any text match', locator: this.page.getByText(albumTitle), timeout: 2000 },
+    ];
+  }
+
+  async findTitle(albumTitle: string): Promise<LocatorResolution> {
+    return resolveLocator('album page title', this.titleStrategies(albumTitle));
+  }
+
+  trackRow(index: number): Locator {
+    return this.trackRows.nth(index);
+  }
+
+  /** Row play button; Spotify only paints it on hover, so the row is hovered first. */
+  async trackRowPlayButton(index: number): Promise<Locator> {
+    const row = this.trackRow(index);
+    await row.hover();
+    return row.getByRole('button', { name: TRACK_PLAY_LABEL });
+  }
+
+  async trackRowAddToPlaylistButton(index: number): Promise<Locator> {
+    const row = this.trackRow(index);
+    await row.hover();
+    return row.getByTestId('add-to-playlist-button').or(row.getByRole('button', { name: /add to playlist/i })).first();
+  }
+
+  /**
+   * Every play button renders "▶"; only the accessible name tells the album's
+   * apart from the tracklist row buttons ("Play <track> by <artist>"), so
+   * the cascade goes by role and name, then by position in the action bar.
+   */
+  mainPlayButtonStrategies(): LocatorStrategy[] {
+    return [
+      { name: 'role-based main play button', locator: this.mainPlayButton, timeout: 2000 },
+      { name: 'action bar play button', locator: this.actionBarPlayButton, timeout: 5000 },
+      {
+        name: 'fallback - first visible Play button',
+        locator: async () => {
+          const buttonCount = await this.buttons.count();
+          for (let i = 0; i < buttonCount; i++) {
+            const button = this.buttons.nth(i);
+            const label = (await button.getAttribute('aria-label')) ?? (await button.textContent()) ?? '';
+            if (PLAY_LABEL.test(label.trim()) && await button.isVisible()) {
+              return button;
+            }
+          }
+          return null;
+        },
+      },
+    ];
+  }
+
+  async findMainPlayButton(): Promise<LocatorResolution> {
+    return resolveLocator('album main play button', this.mainPlayButtonStrategies());
+  }
+
+  /** Reads title, creators, release year, tracklist and cover art as the page renders them. */
+  async readContent(): Promise<AlbumPageContent> {
+    await expect(this.trackRows.first()).toBeVisible();
+
+    const tracks = await this.trackRows.evaluateAll((rows) =>
+      rows.map((row) => ({
+        title: row.querySelector('[data-testid="track-name"]')?.textContent?.trim() ?? '',
+        duration: row.querySelector('[data-testid="track-duration"]')?.textContent?.trim() ?? '',
+        artistLinks: Array.from(row.querySelectorAll('a[href*="/artist/"]')).map((link) => ({
+          name: link.textContent?.trim() ?? '',
+          href: link.getAttribute('href') ?? '',
+        })),
+      })),
+    );
+    const creatorLinks = await this.creatorLinks.evaluateAll((links) =>
+      links.map((link) => ({ name: link.textContent?.trim() ?? '', href: link.getAttribute('href') ?? '' })),
+    );
+    const headerText = (await this.entityHeader.count()) > 0 ? await this.entityHeader.innerText() : '';
+    const headerTrackCount = headerText.match(/(\d+)\s+songs?/i);
+    const coverArt = (await this.coverArt.count()) > 0
+      ? await this.coverArt.evaluate(async (image: HTMLImageElement) => {
+          // decode() settles once the image loaded or failed, so a slow cover is not reported as broken
+          await image.decode().catch(() => undefined);
+          return {
+            src: image.getAttribute('src') ?? '',
+            alt: image.getAttribute('alt') ?? '',
+            loaded: image.complete && image.naturalWidth > 0,
+          };
+        })
+      : null;
+
+    return {
+      url: this.page.url(),
+      title: (await this.heading.first().innerText()).trim(),
+      creatorLinks,
+      releaseYear: (await this.releaseYear.count()) > 0 ? (await this.releaseYear.innerText()).trim() : '',
+      headerTrackCount: headerTrackCount ? Number(headerTrackCount[1]) : null,
+      tracks,
+      coverArt,
+    };
+  }
+
+  async play(): Promise<LoginModal> {
+    await this.mainPlayButton.click();
+    return this.loginModal;
+  }
+}
@@ -0,0 +1,24 @@
+import { Locator, Page, expect } from '@playwright/test';
+import { AlbumPage } from './AlbumPage';
+import { SpotifyPage } from './SpotifyPage';
+
+export class ArtistPage extends SpotifyPage {
+  readonly heading: Locator;
+  readonly albumLinks: Locator;
+  readonly followButton: Locator;
+
+  constructor(page: Page) {
+    super(page);
+    this.heading = page.locator('h1');
+    this.albumLinks = page.locator('a[href*="/album/"]');
+    this.followButton = page.getByTestId('follow-button').or(page.getByRole('button', { name: /^follow$/i })).first();
+  }
+
+  async openFirstAlbum(): Promise<AlbumPage> {
+    const firstAlbum = this.albumLinks.first();
+    await expect(firstAlbum).toBeVisible();
+    await firstAlbum.click();
+    await this.page.waitForLoadState('networkidle');
+    return new AlbumPage(this.page);
+  }
+}
@@ -0,0 +1,32 @@
+import { Locator } from '@playwright/test';
+import { SearchResultsPage } from './SearchResultsPage';
+import { SpotifyPage } from './SpotifyPage';
+
+export class HomePage extends SpotifyPage {
+  /** Opens the homepage relative to the configured baseURL. */
+  async goto(): Promise<this> {
+    await this.page.goto('/');
+    await this.page.waitForLoadState('domcontentloaded');
+    return this;
+  }
+
+  /** Recommendation shelves are personalised per region and day. */
+  visualMasks(): Locator[] {
+    return [...super.visualMasks(), this.page.locator('main section')];
+  }
+
+  /** Types into the header search; Spotify searches as you type. */
+  async typeSearchQuery(query: string): Promise<SearchResultsPage> {
+    await this.openSearch();
+    await this.searchInput.clear();
+    await this.searchInput.fill(query);
+    return new SearchResultsPage(this.page);
+  }
+
+  async search(query: string): Promise<SearchResultsPage> {
+    const resultsPage = await this.typeSearchQuery(query);
+    await this.searchInput.press('Enter');
+    await this.page.waitForLoadState('networkidle');
+    return resultsPage;
+  }
+}
@@ -0,0 +1,38 @@
+import { Locator, Page } from '@playwright/test';
+
+/**
+ * Language selection menu opened from the footer language button.
+ * A component rather than a page: choosing a language reloads whichever
+ * page it was opened from, so the caller keeps its own page object.
+ */
+export class LanguageMenu {
+  readonly container: Locator;
+  readonly options: Locator;
+
+  constructor(readonly page: Page) {
+    this.container = page.locator('[role="listbox"], [role="menu"], .language-dropdown');
+    this.options = page.locator('[role="option"], [role="menuitem"]');
+  }
+
+  /** Language option by its Spotify code, e.g. `pt-BR` → `language-option-pt-BR`. */
+  option(languageCode: string): Locator {
+    return this.page.getByTestId(`language-option-${languageCode}`);
+  }
+
+  optionByName(name: string | RegExp): Locator {
+    return this.page.getByRole('option', { name });
+  }
+
+  async waitUntilOpen(timeout = 3000): Promise<void> {
+    await Promise.race([
+      this.container.first().waitFor({ state: 'visible', timeout }),
+      this.options.first().waitFor({ state: 'visible', timeout }),
+    ]);
+  }
+
+  async select(languageCode: string): Promise<void> {
+    await this.option(languageCode).click();
+    // The interface reloads in the new language
+    await this.page.waitForLoadState('networkidle');
+  }
+}
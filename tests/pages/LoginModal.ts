@@ -0,0 +1,93 @@
+import { Locator, Page, expect } from '@playwright/test';
+import { LocatorResolution, LocatorStrategy, resolveLocator } from '@helpers/locatorCascade';
+import { anyLocaleLabel } from '@data/locales';
+
+export type LoginModalCloseMethod = 'close button' | 'Escape' | 'backdrop';
+
+/**
+ * Authentication prompt Spotify shows when an anonymous user tries an
+ * action that needs an account (play, save, follow...). Phones get it as a
+ * bottom sheet that is dismissed by tapping the backdrop above it.
+ */
+export class LoginModal {
+  readonly root: Locator;
+  readonly signUpButton: Locator;
+  readonly loginButton: Locator;
+  readonly closeButton: Locator;
+  readonly headline: Locator;
+
+  constructor(readonly page: Page) {
+    // i18n: Accessible names come from the locale catalog, in every language the journeys cover
+    const logIn = anyLocaleLabel((locale) => locale.loginButtonLabels.logIn);
+    const signUp = anyLocaleLabel((locale) => [locale.authModalSignUp, locale.loginButtonLabels.signUp]);
+    this.root = page.locator('[data-testid="login-modal"]').or(
+      page.getByRole('dialog').filter({ hasText: logIn }).or(page.getByRole('dialog').filter({ hasText: signUp }))
+    );
+    this.signUpButton = this.root.getByRole('button', { name: signUp }).first();
+    this.loginButton = this.root.getByRole('button', { name: logIn }).first();
+    this.closeButton = page.locator('[data-testid="modal-close-button"]').or(
+      page.getByRole('button', { name: anyLocaleLabel((locale) => [locale.closeButtonLabel, '×']) })
+    ).or(
+      page.locator('button[aria-label*="close" i]')
+    ).first();
+    this.headline = this.root.getByRole('heading').first();
+  }
+
+  /** Any copy the modal is expected to show, matched anywhere on the page. */
+  text(copy: string | RegExp): Locator {
+    return this.page.getByText(copy, { exact: false });
+  }
+
+  /** The expected copy first, then looser alternatives that still prove the modal is up. */
+  copyStrategies(expectedCopy: string, alternatives: string[] = []): LocatorStrategy[] {
+    return [
+      { name: `expected copy "${expectedCopy}"`, locator: this.text(expectedCopy), timeout: 5000 },
+      ...alternatives.map((copy) => ({ name: `alternative copy "${copy}"`, locator: this.text(copy), timeout: 1000 })),
+    ];
+  }
+
+  async findCopy(expectedCopy: string, alternatives: string[] = []): Promise<LocatorResolution> {
+    return resolveLocator('login modal copy', this.copyStrategies(expectedCopy, alternatives));
+  }
+
+  async expectVisible(): Promise<void> {
+    await expect(this.root).toBeVisible();
+    await expect(this.signUpButton.or(this.loginButton).first()).toBeVisible();
+  }
+
+  async isBottomSheet(): Promise<boolean> {
+    return (await this.root.getAttribute('data-variant')) === 'bottom-sheet';
+  }
+
+  /** Where the Sign up and Log in calls to action lead, read from their links. */
+  async ctaDestinations(): Promise<{ signUp: string | null; logIn: string | null }> {
+    return {
+      signUp: await this.signUpButton.getAttribute('href'),
+      logIn: await this.loginButton.getAttribute('href'),
+    };
+  }
+
+  /** Closes the modal one specific way, for suites that cover every dismissal path. */
+  async closeWith(method: LoginModalCloseMethod): Promise<void> {
+    if (method === 'close button') {
+      await this.closeButton.click();
+    } else if (method === 'Escape') {
+      await this.page.keyboard.press('Escape');
+    } else {
+      // The dimmed area around the dialog (or above the sheet) is the modal root itself
+      await this.root.click({ position: { x: 10, y: 10 } });
+    }
+    await expect(this.root).not.toBeVisible();
+  }
+
+  async close(): Promise<void> {
+    if (await this.isBottomSheet()) {
+      // QA Insight: A real thumb taps the dimmed area above the sheet, not a tiny ×
+      await this.root.click({ position: { x: 10, y: 10 } });
+    } else {
+      await expect(this.closeButton).toBeVisible();
+      await this.closeButton.click();
+    }
+    await expect(this.root).not.toBeVisible();
+  }
+}
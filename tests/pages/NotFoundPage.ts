@@ -0,0 +1,16 @@
+import { Locator, Page } from '@playwright/test';
+import { anyLocaleLabel } from '@data/locales';
+import { SpotifyPage } from './SpotifyPage';
+
+/** What an unknown ID or a malformed URL renders instead of an entity page. */
+export class NotFoundPage extends SpotifyPage {
+  readonly heading: Locator;
+
+  constructor(page: Page) {
+    super(page);
+    this.heading = page
+      .locator('[data-testid="not-found"] h1')
+      .or(page.getByRole('heading', { name: anyLocaleLabel((locale) => locale.notFoundHeadings) }))
+      .first();
+  }
+}
@@ -0,0 +1,13 @@
+import { Locator, Page } from '@playwright/test';
+import { SpotifyPage } from './SpotifyPage';
+
+export class PlaylistPage extends SpotifyPage {
+  readonly heading: Locator;
+  readonly trackRows: Locator;
+
+  constructor(page: Page) {
+    super(page);
+    this.heading = page.locator('h1');
+    this.trackRows = page.locator('[data-testid="tracklist-row"]');
+  }
+}
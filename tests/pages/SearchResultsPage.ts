@@ -0,0 +1,91 @@
+import { Locator, Page, expect } from '@playwright/test';
+import { LocatorResolution, LocatorStrategy, resolveLocator } from '@helpers/locatorCascade';
+import { anyLocaleLabel } from '@data/locales';
+import { AlbumPage } from './AlbumPage';
+import { ArtistPage } from './ArtistPage';
+import { SpotifyPage } from './SpotifyPage';
+
+/** The Albums section heading, in any catalog language. */
+const ALBUMS_HEADING = new RegExp(`^(?:${anyLocaleLabel((locale) => locale.albumsSectionHeading).source})$`, 'i');
+
+export class SearchResultsPage extends SpotifyPage {
+  readonly results: Locator;
+  readonly suggestions: Locator;
+  readonly topResultCard: Locator;
+
+  constructor(page: Page) {
+    super(page);
+    this.results = page.locator('[data-testid="search-results"]').or(
+      page.locator('section').filter({ hasText: /artists|top result/i })
+    ).first();
+    this.suggestions = page.locator('[data-testid*="search"], [role="listbox"], .search-suggestions');
+    this.topResultCard = page.locator('[data-testid="top-result-card"]').or(
+      page.locator('a[href*="/artist/"]')
+    ).first();
+  }
+
+  /** A result section (Top result, Songs, Artists, Albums) by its heading. */
+  section(heading: string | RegExp): Locator {
+    return this.results.locator('section').filter({ has: this.page.getByRole('heading', { name: heading, exact: true }) });
+  }
+
+  /** Name shown on the top result card; the card's first child holds it, the entity type follows. */
+  async topResultName(): Promise<string> {
+    return (await this.topResultCard.locator(':scope > *').first().innerText()).trim();
+  }
+
+  /** Section headings in the order they render. */
+  async sectionOrder(): Promise<string[]> {
+    const headings = await this.results.getByRole('heading', { level: 2 }).allInnerTexts();
+    return headings.map((heading) => heading.trim());
+  }
+
+  /** Album titles in the Albums section, in ranked order. */
+  async albumTitles(): Promise<string[]> {
+    const titles = await this.section(ALBUMS_HEADING).locator('[data-testid="card"] a[href*="/album/"]').allInnerTexts();
+    return titles.map((title) => title.trim());
+  }
+
+  albumByExactText(albumTitle: string): Locator {
+    return this.page.getByText(albumTitle, { exact: true });
+  }
+
+  albumByText(albumTitle: string): Locator {
+    return this.page.locator(`text=${albumTitle}`);
+  }
+
+  albumByTitleAttribute(albumTitle: string): Locator {
+    return this.page.getByTitle(albumTitle);
+  }
+
+  albumCard(albumTitle: string): Locator {
+    return this.page.locator('[data-testid*="card"]').filter({ hasText: albumTitle });
+  }
+
+  /** Cascade for an album in the results, most stable selector first. */
+  albumStrategies(albumTitle: string): LocatorStrategy[] {
+    return [
+      { name: 'exact text match', locator: this.albumByExactText(albumTitle), timeout: 5000 },
+      { name: 'partial text match', locator: this.albumByText(albumTitle) },
+      { name: 'title attribute', locator: this.albumByTitleAttribute(albumTitle) },
+      { name: 'data-testid + text filter fallback', locator: this.albumCard(albumTitle) },
+    ];
+  }
+
+  async findAlbum(albumTitle: string): Promise<LocatorResolution> {
+    return resolveLocator('search result album', this.albumStrategies(albumTitle));
+  }
+
+  async openAlbum(album: Locator): Promise<AlbumPage> {
+    await album.click();
+    await this.page.waitForLoadState('networkidle');
+    return new AlbumPage(this.page);
+  }
+
+  async openTopResult(): Promise<ArtistPage> {
+    await expect(this.topResultCard).toBeVisible();
+    await this.topResultCard.click();
+    await this.page.waitForLoadState('networkidle');
+    return new ArtistPage(this.page);
+  }
+}
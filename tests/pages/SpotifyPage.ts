@@ -0,0 +1,83 @@
+import { Locator, Page, expect } from '@playwright/test';
+import { LocaleExpectations, localeForLanguageTag } from '@data/locales';
+import { LanguageMenu } from './LanguageMenu';
+import { LoginModal } from './LoginModal';
+
+/**
+ * Chrome shared by every Spotify Web page an anonymous user can reach:
+ * the header search, the header auth buttons, the footer language button
+ * and the login modal.
+ *
+ * On phone-sized viewports the header collapses: Log in / Sign up move
+ * behind a menu button and search is opened from the bottom navigation.
+ * Methods that touch the header handle both layouts.
+ */
+export abstract class SpotifyPage {
+  readonly searchInput: Locator;
+  readonly languageButton: Locator;
+  readonly headerLoginButton: Locator;
+  readonly headerSignUpButton: Locator;
+  readonly navMenuButton: Locator;
+  readonly mobileSearchEntry: Locator;
+  readonly languageMenu: LanguageMenu;
+  readonly loginModal: LoginModal;
+
+  constructor(readonly page: Page) {
+    this.searchInput = page.getByTestId('search-input');
+    this.languageButton = page.getByTestId('language-selection-button');
+    this.headerLoginButton = page.getByTestId('login-button');
+    this.headerSignUpButton = page.getByTestId('signup-button');
+    this.navMenuButton = page.getByTestId('nav-menu-button');
+    this.mobileSearchEntry = page.getByTestId('mobile-search-link');
+    this.languageMenu = new LanguageMenu(page);
+    this.loginModal = new LoginModal(page);
+  }
+
+  /** True when the collapsed (phone) header is shown instead of the desktop one. */
+  async isMobileLayout(): Promise<boolean> {
+    return this.navMenuButton.isVisible();
+  }
+
+  /** Makes the header Log in / Sign up buttons visible, expanding the collapsed navigation if needed. */
+  async revealHeaderActions(): Promise<void> {
+    if ((await this.isMobileLayout()) && (await this.navMenuButton.getAttribute('aria-expanded')) !== 'true') {
+      await this.navMenuButton.click();
+    }
+    await expect(this.headerLoginButton).toBeVisible();
+  }
+
+  /** Brings up the search input: always visible on desktop, opened from the bottom navigation on phones. */
+  async openSearch(): Promise<Locator> {
+    if (!(await this.searchInput.isVisible()) && (await this.isMobileLayout())) {
+      await this.mobileSearchEntry.click();
+    }
+    await expect(this.searchInput).toBeVisible();
+    return this.searchInput;
+  }
+
+  /** Catalog entry for the interface language the page is rendered in, read from `<html lang>`. */
+  async activeLocale(): Promise<LocaleExpectations> {
+    const lang = await this.page.locator('html').getAttribute('lang');
+    return localeForLanguageTag(lang ?? '');
+  }
+
+  async openLanguageMenu(): Promise<LanguageMenu> {
+    await this.languageButton.click();
+    return this.languageMenu;
+  }
+
+  /**
+   * Regions whose pixels change between runs without being a regression,
+   * masked out of visual snapshots. Cover art rotates with the catalog.
+   */
+  visualMasks(): Locator[] {
+    return [this.page.locator('img, [data-testid="cover-art"]')];
+  }
+
+  /** Switches the interface language; the same page reloads in place. */
+  async changeLanguage(languageCode: string): Promise<this> {
+    const menu = await this.openLanguageMenu();
+    await menu.select(languageCode);
+    return this;
+  }
+}
@@ -0,0 +1,15 @@
+import { Locator, Page } from '@playwright/test';
+import { SpotifyPage } from './SpotifyPage';
+
+export class TrackPage extends SpotifyPage {
+  readonly heading: Locator;
+  readonly creatorLinks: Locator;
+  readonly albumLink: Locator;
+
+  constructor(page: Page) {
+    super(page);
+    this.heading = page.locator('h1');
+    this.creatorLinks = page.locator('[data-testid="creator-link"]');
+    this.albumLink = page.locator('[data-testid="album-link"]').or(page.locator('[data-testid="entity-header"] a[href*="/album/"]')).first();
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Behind the Test - Spotify Web Page Objects
+ *
+ * Single source of truth for Spotify Web selectors. Every page object owns
+ * its locators and navigation methods return the page object of wherever
+ * the user lands next, so specs read as the journey they simulate.
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ */
+
+export { SpotifyPage } from './SpotifyPage';
+export { HomePage } from './HomePage';
+export { SearchResultsPage } from './SearchResultsPage';
+export { ArtistPage } from './ArtistPage';
+export { AlbumPage } from './AlbumPage';
+export { TrackPage } from './TrackPage';
+export { PlaylistPage } from './PlaylistPage';
+export { NotFoundPage } from './NotFoundPage';
+export { LanguageMenu } from './LanguageMenu';
+export { LoginModal } from './LoginModal';
@@ -0,0 +1,367 @@
+import fs from 'fs';
+import path from 'path';
+import type {
+  JSONReport,
+  JSONReportSpec,
+  JSONReportSuite,
+  JSONReportTest,
+  JSONReportTestResult,
+  JSONReportTestStep,
+} from '@playwright/test/reporter';
+
+/**
+ * Behind the Test - Failure Triage
+ *
+ * A red nightly run is twenty failures across five projects, and most of
+ * them are the same two problems. This post-run command reads the JSON
+ * results (test-results/results.json, written by the `json` reporter),
+ * groups every failed attempt by the innermost test step it failed in and
+ * a normalized error signature, and links each group to the traces,
+ * videos, failure screenshots and evidence captures of its attempts.
+ *
+ * Usage: npm run triage -- [results.json] [--out <dir>] [--link-base <url>]
+ *
+ * Output: <out>/triage.md and <out>/triage.html (default test-results),
+ * compact enough to paste into a bug ticket, plus a console summary.
+ * Links are relative to <out>; with --link-base they are absolute, built
+ * from the artifact's path relative to the working directory.
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ */
+
+const OUTSIDE_STEPS = '(outside test steps)';
+const DEFAULT_RESULTS = path.join('test-results', 'results.json');
+/** Error lines kept per group; the full message stays in the HTML report. */
+const EXCERPT_LINES = 8;
+
+interface ArtifactLink {
+  label: string;
+  href: string;
+}
+
+interface FailureOccurrence {
+  project: string;
+  title: string;
+  location: string;
+  retry: number;
+  outcome: JSONReportTest['status'];
+  trace: ArtifactLink | null;
+  /** Relative to the working directory, for `npx playwright show-trace`. */
+  tracePath: string | null;
+  video: ArtifactLink | null;
+  screenshots: ArtifactLink[];
+  evidence: ArtifactLink[];
+}
+
+interface FailureGroup {
+  step: string;
+  signature: string;
+  excerpt: string;
+  occurrences: FailureOccurrence[];
+}
+
+interface TriageSummary {
+  resultsFile: string;
+  startTime: string;
+  duration: number;
+  unexpected: number;
+  flaky: number;
+  failedAttempts: number;
+  groups: FailureGroup[];
+}
+
+interface TriageOptions {
+  resultsFile: string;
+  outputDir: string;
+  linkBase?: string;
+}
+
+function stripAnsi(text: string): string {
+  return text.replace(/\u001b\[[0-9;]*m/g, '');
+}
+
+/** First line of the message without the error class, for matching a result error to its step. */
+function headline(message: string): string {
+  const first = stripAnsi(message).split('\n').find((line) => line.trim()) ?? '';
+  return first.replace(/^\s*Error:\s*/, '').trim();
+}
+
+/**
+ * Same failure, same signature: durations, counts, URLs and Spotify IDs
+ * differ per run and per locale, the matcher and the locator do not.
+ */
+export function errorSignature(message: string): string {
+  const lines = stripAnsi(message).split('\n');
+  const locator = lines.find((line) => /^\s*Locator:/.test(line))?.trim();
+  return [headline(message) || '(no error message)', locator]
+    .filter(Boolean)
+    .join(' · ')
+    .replace(/https?:\/\/\S+/g, '<url>')
+    .replace(/\b[0-9A-Za-z]{22}\b/g, '<id>')
+    .replace(/\b\d+(\.\d+)?(ms|s)?\b/g, '<n>$2');
+}
+
+/** Title path of the innermost step that failed with this error, outermost first. */
+function failingStep(steps: JSONReportTestStep[] | undefined, errorHeadline: string, parents: string[] = []): string | null {
+  for (const step of steps ?? []) {
+    const titlePath = [...parents, step.title];
+    const inner = failingStep(step.steps, errorHeadline, titlePath);
+    if (inner) {
+      return inner;
+    }
+    if (step.error && headline(step.error.message ?? '') === errorHeadline) {
+      return titlePath.join(' › ');
+    }
+  }
+  return null;
+}
+
+function specs(suite: JSONReportSuite): JSONReportSpec[] {
+  return [...suite.specs, ...(suite.suites ?? []).flatMap(specs)];
+}
+
+class FailureTriage {
+  private readonly groups = new Map<string, FailureGroup>();
+  private readonly outputDir: string;
+
+  constructor(private readonly options: TriageOptions) {
+    this.outputDir = path.resolve(options.outputDir);
+  }
+
+  run(): TriageSummary {
+    const report = JSON.parse(fs.readFileSync(this.options.resultsFile, 'utf-8')) as JSONReport;
+    let failedAttempts = 0;
+
+    for (const spec of report.suites.flatMap(specs)) {
+      for (const test of spec.tests) {
+        for (const result of test.results) {
+          if (result.status !== 'failed' && result.status !== 'timedOut') {
+            continue;
+          }
+          failedAttempts += 1;
+          this.addAttempt(spec, test, result);
+        }
+      }
+    }
+
+    const outcomes = report.suites.flatMap(specs).flatMap((spec) => spec.tests.map((test) => test.status));
+    return {
+      resultsFile: this.options.resultsFile,
+      startTime: report.stats.startTime,
+      duration: report.stats.duration,
+      unexpected: outcomes.filter((outcome) => outcome === 'unexpected').length,
+      flaky: outcomes.filter((outcome) => outcome === 'flaky').length,
+      failedAttempts,
+      // Most frequent first, then the one that hits the most tests
+      groups: [...this.groups.values()].sort(
+        (a, b) => b.occurrences.length - a.occurrences.length || distinctTests(b) - distinctTests(a),
+      ),
+    };
+  }
+
+  private addAttempt(spec: JSONReportSpec, test: JSONReportTest, result: JSONReportTestResult): void {
+    // QA Insight: Soft assertions report several errors per attempt, each one may be a different problem
+    const errors = result.errors.length > 0 ? result.errors : [{ message: result.error?.message ?? '' }];
+    const occurrence = this.occurrence(spec, test, result);
+
+    for (const error of errors) {
+      const message = error.message ?? '';
+      const step = failingStep(result.steps, headline(message)) ?? OUTSIDE_STEPS;
+      const signature = errorSignature(message);
+      const key = `${step}\n${signature}`;
+      const group = this.groups.get(key) ?? { step, signature, excerpt: excerpt(message), occurrences: [] };
+      group.occurrences.push(occurrence);
+      this.groups.set(key, group);
+    }
+  }
+
+  private occurrence(spec: JSONReportSpec, test: JSONReportTest, result: JSONReportTestResult): FailureOccurrence {
+    const withPath = result.attachments.filter((attachment) => attachment.path);
+    const link = (label: string, file: string): ArtifactLink => ({ label, href: this.href(file) });
+    const trace = withPath.find((attachment) => attachment.name === 'trace');
+    const video = withPath.find((attachment) => attachment.name === 'video');
+
+    return {
+      project: test.projectName,
+      title: spec.title,
+      location: `${spec.file}:${spec.line}`,
+      retry: result.retry,
+      outcome: test.status,
+      trace: trace ? link('trace', trace.path!) : null,
+      tracePath: trace ? path.relative(process.cwd(), trace.path!) : null,
+      video: video ? link('video', video.path!) : null,
+      screenshots: withPath
+        .filter((attachment) => attachment.name === 'screenshot')
+        .map((attachment, index) => link(`screenshot ${index + 1}`, attachment.path!)),
+      // Evidence: EvidenceCollector attaches every capture as `evidence: <step>`
+      evidence: withPath
+        .filter((attachment) => attachment.name.startsWith('evidence: '))
+        .map((attachment) => link(attachment.name.slice('evidence: '.length), attachment.path!)),
+    };
+  }
+
+  private href(file: string): string {
+    if (this.options.linkBase) {
+      return `${this.options.linkBase.replace(/\/$/, '')}/${encodeURI(path.relative(process.cwd(), file).split(path.sep).join('/'))}`;
+    }
+    return encodeURI(path.relative(this.outputDir, file).split(path.sep).join('/'));
+  }
+}
+
+function distinctTests(group: FailureGroup): number {
+  return new Set(group.occurrences.map((occurrence) => `${occurrence.project} › ${occurrence.location}`)).size;
+}
+
+function excerpt(message: string): string {
+  const lines = stripAnsi(message)
+    .split('\n')
+    .filter((line) => !/^\s+at /.test(line));
+  return lines.slice(0, EXCERPT_LINES).join('\n').trim();
+}
+
+function attemptLabel(occurrence: FailureOccurrence): string {
+  return occurrence.retry === 0 ? 'first run' : `retry ${occurrence.retry}`;
+}
+
+function outcomeMarker(outcome: FailureOccurrence['outcome']): string {
+  return outcome === 'flaky' ? '🎲 flaky' : '❌ failed';
+}
+
+function groupHeadline(group: FailureGroup): string {
+  const projects = [...new Set(group.occurrences.map((occurrence) => occurrence.project))].join(', ');
+  return `${group.occurrences.length} failed attempt(s) in ${distinctTests(group)} test(s) · ${projects}`;
+}
+
+function runHeadline(summary: TriageSummary): string {
+  return (
+    `${summary.groups.length} failure group(s) from ${summary.failedAttempts} failed attempt(s): ` +
+    `${summary.unexpected} failed, ${summary.flaky} flaky · run of ${summary.startTime}, ${Math.round(summary.duration / 1000)}s`
+  );
+}
+
+function markdownCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+export function renderMarkdown(summary: TriageSummary): string {
+  const lines = ['# 🧪 Failure triage', '', runHeadline(summary), ''];
+  if (summary.groups.length === 0) {
+    lines.push('✅ No failed attempts in this run.');
+  }
+
+  summary.groups.forEach((group, index) => {
+    const trace = group.occurrences.find((occurrence) => occurrence.tracePath);
+    lines.push(
+      `## ${index + 1}. \`${markdownCell(group.step)}\``,
+      '',
+      `**${markdownCell(group.signature)}**`,
+      '',
+      groupHeadline(group),
+      '',
+      '```text',
+      group.excerpt,
+      '```',
+      '',
+      '| Test | Project | Attempt | Outcome | Trace | Video | Screenshots |',
+      '| --- | --- | --- | --- | --- | --- | --- |',
+    );
+    for (const occurrence of group.occurrences) {
+      const links = (artifacts: (ArtifactLink | null)[]) =>
+        artifacts
+          .filter((artifact): artifact is ArtifactLink => Boolean(artifact))
+          .map((artifact) => `[${markdownCell(artifact.label)}](${artifact.href})`)
+          .join(' ') || '-';
+      lines.push(
+        `| ${markdownCell(occurrence.title)} (${occurrence.location}) | ${occurrence.project} | ${attemptLabel(occurrence)} | ` +
+          `${outcomeMarker(occurrence.outcome)} | ${links([occurrence.trace])} | ${links([occurrence.video])} | ` +
+          `${links([...occurrence.screenshots, ...occurrence.evidence])} |`,
+      );
+    }
+    if (trace) {
+      lines.push('', `Open a trace: \`npx playwright show-trace ${trace.tracePath}\``);
+    }
+    lines.push('');
+  });
+  return lines.join('\n');
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+export function renderHtml(summary: TriageSummary): string {
+  const anchor = (artifact: ArtifactLink) => `<a href="${escapeHtml(artifact.href)}">${escapeHtml(artifact.label)}</a>`;
+  const anchors = (artifacts: (ArtifactLink | null)[]) =>
+    artifacts.filter((artifact): artifact is ArtifactLink => Boolean(artifact)).map(anchor).join(' ') || '-';
+
+  const groups = summary.groups.map((group, index) => {
+    const rows = group.occurrences.map(
+      (occurrence) =>
+        `<tr><td>${escapeHtml(occurrence.title)}<br><small>${escapeHtml(occurrence.location)}</small></td>` +
+        `<td>${escapeHtml(occurrence.project)}</td><td>${attemptLabel(occurrence)}</td><td>${outcomeMarker(occurrence.outcome)}</td>` +
+        `<td>${anchors([occurrence.trace])}</td><td>${anchors([occurrence.video])}</td>` +
+        `<td>${anchors([...occurrence.screenshots, ...occurrence.evidence])}</td></tr>`,
+    );
+    return [
+      `<section><h2>${index + 1}. <code>${escapeHtml(group.step)}</code></h2>`,
+      `<p><strong>${escapeHtml(group.signature)}</strong><br>${escapeHtml(groupHeadline(group))}</p>`,
+      `<pre>${escapeHtml(group.excerpt)}</pre>`,
+      '<table><tr><th>Test</th><th>Project</th><th>Attempt</th><th>Outcome</th><th>Trace</th><th>Video</th><th>Screenshots</th></tr>',
+      ...rows,
+      '</table></section>',
+    ].join('\n');
+  });
+
+  return [
+    '<!doctype html>',
+    '<html lang="en"><head><meta charset="utf-8"><title>Failure triage</title>',
+    '<style>body{font:14px system-ui,sans-serif;margin:2em;max-width:1100px}pre{background:#f4f4f4;padding:.75em;overflow:auto}' +
+      'table{border-collapse:collapse;width:100%}td,th{border:1px solid #ddd;padding:.35em;text-align:left;vertical-align:top}</style>',
+    '</head><body>',
+    '<h1>🧪 Failure triage</h1>',
+    `<p>${escapeHtml(runHeadline(summary))}</p>`,
+    summary.groups.length === 0 ? '<p>✅ No failed attempts in this run.</p>' : groups.join('\n'),
+    '</body></html>',
+    '',
+  ].join('\n');
+}
+
+function parseArgs(args: string[]): TriageOptions {
+  const options: TriageOptions = { resultsFile: DEFAULT_RESULTS, outputDir: 'test-results' };
+  for (let index = 0; index < args.length; index += 1) {
+    const arg = args[index];
+    if (arg === '--out') {
+      options.outputDir = args[++index];
+    } else if (arg === '--link-base') {
+      options.linkBase = args[++index];
+    } else {
+      options.resultsFile = arg;
+    }
+  }
+  return options;
+}
+
+export function triage(options: TriageOptions): TriageSummary {
+  const summary = new FailureTriage(options).run();
+  fs.mkdirSync(options.outputDir, { recursive: true });
+  fs.writeFileSync(path.join(options.outputDir, 'triage.md'), renderMarkdown(summary));
+  fs.writeFileSync(path.join(options.outputDir, 'triage.html'), renderHtml(summary));
+  return summary;
+}
+
+if (require.main === module) {
+  const options = parseArgs(process.argv.slice(2));
+  if (!fs.existsSync(options.resultsFile)) {
+    console.log(`❌ No JSON results at ${options.resultsFile}; run the suite first (the json reporter writes them)`);
+    process.exit(1);
+  }
+
+  const summary = triage(options);
+  console.log(`\n🧪 Failure triage: ${runHeadline(summary)}`);
+  summary.groups.forEach((group, index) => {
+    console.log(`${index + 1}. "${group.step}": ${group.signature}`);
+    console.log(`   ↳ ${groupHeadline(group)}`);
+  });
+  console.log(`📄 Summary: ${path.join(options.outputDir, 'triage.md')} and triage.html`);
+}
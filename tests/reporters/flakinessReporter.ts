@@ -0,0 +1,283 @@
+import fs from 'fs';
+import path from 'path';
+import type { FullConfig, Reporter, TestCase, TestResult, TestStep } from '@playwright/test/reporter';
+import { LOCATOR_CASCADE_ATTACHMENT, LocatorCascadeRecord } from '../helpers/locatorCascade';
+import { QuarantineEntry, describeQuarantine, findQuarantine } from '../helpers/quarantine';
+import { SOFT_FALLBACK_ATTACHMENT, SoftFallbackRecord } from '../helpers/softFallback';
+
+/**
+ * Behind the Test - Flakiness Reporter
+ *
+ * `retries: 2` on CI turns an unstable test green, and a `catch` that only
+ * logs a warning does the same for an unstable step. This reporter makes
+ * both visible: per test and per step it counts retries, failed attempts
+ * and soft fallbacks (`soft-fallback` records from recordSoftFallback() and
+ * locator cascades that fell past their primary selector).
+ *
+ * Every run is appended to a local JSON history so a test that is flaky
+ * one run in five stands out, even when today's run was clean. Tests on
+ * the quarantine list (tests/data/quarantine.json) are flagged, never
+ * dropped.
+ *
+ * Output: <outputDir>/flakiness.json, the history store (default
+ * .flakiness/history.json next to the config) and a console summary.
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ */
+
+const OUTSIDE_STEPS = '(outside test steps)';
+
+interface SoftFallbackOccurrence extends SoftFallbackRecord {
+  step: string;
+  attempt: number;
+}
+
+interface StepFlakiness {
+  step: string;
+  attempts: number;
+  failedAttempts: number;
+  softFallbacks: number;
+}
+
+interface FlakinessHistoryTest {
+  outcome: ReturnType<TestCase['outcome']>;
+  retries: number;
+  softFallbacks: number;
+}
+
+interface FlakinessHistoryRun {
+  startedAt: string;
+  tests: Record<string, FlakinessHistoryTest>;
+}
+
+interface FlakinessHistory {
+  runs: FlakinessHistoryRun[];
+}
+
+interface FlakinessTrend {
+  runs: number;
+  flakyRuns: number;
+  failedRuns: number;
+  softFallbackRuns: number;
+  flakinessRate: number;
+}
+
+interface TestFlakiness extends FlakinessHistoryTest {
+  key: string;
+  project: string;
+  title: string;
+  fallbacks: SoftFallbackOccurrence[];
+  steps: StepFlakiness[];
+  quarantine: QuarantineEntry | null;
+  trend: FlakinessTrend;
+}
+
+interface FlakinessReporterOptions {
+  outputFile?: string;
+  historyFile?: string;
+  /** How many runs the history store keeps. */
+  maxRuns?: number;
+}
+
+/** Innermost test.step around every attachment, keyed by attachment body. */
+function attachmentSteps(steps: TestStep[], enclosingStep = OUTSIDE_STEPS, found = new Map<string, string>()): Map<string, string> {
+  for (const step of steps) {
+    const stepTitle = step.category === 'test.step' ? step.title : enclosingStep;
+    for (const attachment of step.attachments) {
+      const body = attachment.body?.toString();
+      if (body && !found.has(body)) {
+        found.set(body, stepTitle);
+      }
+    }
+    attachmentSteps(step.steps, stepTitle, found);
+  }
+  return found;
+}
+
+function userSteps(steps: TestStep[]): TestStep[] {
+  return steps.flatMap((step) => [...(step.category === 'test.step' ? [step] : []), ...userSteps(step.steps)]);
+}
+
+class FlakinessReporter implements Reporter {
+  private readonly attempts = new Map<string, { test: TestCase; results: TestResult[] }>();
+  private readonly startedAt = new Date().toISOString();
+  private outputFile: string;
+  private historyFile: string;
+  private readonly maxRuns: number;
+
+  constructor(options: FlakinessReporterOptions = {}) {
+    this.outputFile = options.outputFile ?? '';
+    this.historyFile = options.historyFile ?? '';
+    this.maxRuns = options.maxRuns ?? 30;
+  }
+
+  onBegin(config: FullConfig): void {
+    if (!this.outputFile) {
+      const outputDir = config.projects[0]?.outputDir ?? path.join(config.rootDir, 'test-results');
+      this.outputFile = path.join(outputDir, 'flakiness.json');
+    }
+    if (!this.historyFile) {
+      const configDir = config.configFile ? path.dirname(config.configFile) : config.rootDir;
+      this.historyFile = path.join(configDir, '.flakiness', 'history.json');
+    }
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    const entry = this.attempts.get(test.id) ?? { test, results: [] };
+    entry.results.push(result);
+    this.attempts.set(test.id, entry);
+  }
+
+  onEnd(): void {
+    if (this.attempts.size === 0) {
+      return;
+    }
+
+    const tests = [...this.attempts.values()].map(({ test, results }) => this.summarize(test, results));
+    const history = this.appendToHistory(tests);
+    for (const test of tests) {
+      test.trend = this.trend(test.key, history);
+    }
+
+    const report = tests.sort(
+      (a, b) => b.trend.flakinessRate - a.trend.flakinessRate || b.retries - a.retries || b.softFallbacks - a.softFallbacks,
+    );
+    fs.mkdirSync(path.dirname(this.outputFile), { recursive: true });
+    fs.writeFileSync(
+      this.outputFile,
+      JSON.stringify({ generatedAt: new Date().toISOString(), historyRuns: history.runs.length, tests: report }, null, 2),
+    );
+    this.printSummary(report, history.runs.length);
+  }
+
+  printsToStdio(): boolean {
+    return false;
+  }
+
+  private summarize(test: TestCase, results: TestResult[]): TestFlakiness {
+    const project = test.parent.project()?.name ?? '';
+    // titlePath() starts with the root suite and the project; the project is kept separately
+    const title = test.titlePath().slice(2).filter(Boolean).join(' › ');
+    const fallbacks: SoftFallbackOccurrence[] = [];
+    const steps = new Map<string, StepFlakiness>();
+    const stepEntry = (step: string) => {
+      const entry = steps.get(step) ?? { step, attempts: 0, failedAttempts: 0, softFallbacks: 0 };
+      steps.set(step, entry);
+      return entry;
+    };
+
+    for (const result of results) {
+      for (const step of userSteps(result.steps)) {
+        const entry = stepEntry(step.title);
+        entry.attempts += 1;
+        if (step.error) {
+          entry.failedAttempts += 1;
+        }
+      }
+
+      const stepsByAttachment = attachmentSteps(result.steps);
+      for (const attachment of result.attachments) {
+        const body = attachment.body?.toString();
+        const fallback = body ? this.fallbackFrom(attachment.name, body) : null;
+        if (!body || !fallback) {
+          continue;
+        }
+        const step = fallback.step ?? stepsByAttachment.get(body) ?? OUTSIDE_STEPS;
+        fallbacks.push({ ...fallback, step, attempt: result.retry });
+        stepEntry(step).softFallbacks += 1;
+      }
+    }
+
+    return {
+      key: `${project} › ${title}`,
+      project,
+      title,
+      outcome: test.outcome(),
+      retries: results.length - 1,
+      softFallbacks: fallbacks.length,
+      fallbacks,
+      steps: [...steps.values()].filter((step) => step.failedAttempts > 0 || step.softFallbacks > 0),
+      quarantine: findQuarantine(title, project) ?? null,
+      trend: { runs: 0, flakyRuns: 0, failedRuns: 0, softFallbackRuns: 0, flakinessRate: 0 },
+    };
+  }
+
+  private fallbackFrom(name: string, body: string): SoftFallbackRecord | null {
+    if (name === SOFT_FALLBACK_ATTACHMENT) {
+      return JSON.parse(body) as SoftFallbackRecord;
+    }
+    if (name === LOCATOR_CASCADE_ATTACHMENT) {
+      const record = JSON.parse(body) as LocatorCascadeRecord;
+      // A cascade that matched nothing already failed the test; only silent fall-through is a soft fallback
+      if (record.matchedIndex > 0) {
+        return { message: `${record.target}: fell through to "${record.matchedStrategy}"`, step: record.step };
+      }
+    }
+    return null;
+  }
+
+  private appendToHistory(tests: TestFlakiness[]): FlakinessHistory {
+    let history: FlakinessHistory = { runs: [] };
+    if (fs.existsSync(this.historyFile)) {
+      try {
+        history = JSON.parse(fs.readFileSync(this.historyFile, 'utf-8')) as FlakinessHistory;
+      } catch {
+        console.log(`⚠️ Flakiness history at ${this.historyFile} is unreadable, starting a new one`);
+      }
+    }
+
+    history.runs.push({
+      startedAt: this.startedAt,
+      tests: Object.fromEntries(
+        tests.map((test) => [test.key, { outcome: test.outcome, retries: test.retries, softFallbacks: test.softFallbacks }]),
+      ),
+    });
+    history.runs = history.runs.slice(-this.maxRuns);
+
+    fs.mkdirSync(path.dirname(this.historyFile), { recursive: true });
+    fs.writeFileSync(this.historyFile, JSON.stringify(history, null, 2));
+    return history;
+  }
+
+  private trend(key: string, history: FlakinessHistory): FlakinessTrend {
+    const runs = history.runs.map((run) => run.tests[key]).filter((run): run is FlakinessHistoryTest => Boolean(run));
+    const flakyRuns = runs.filter((run) => run.outcome === 'flaky').length;
+    return {
+      runs: runs.length,
+      flakyRuns,
+      failedRuns: runs.filter((run) => run.outcome === 'unexpected').length,
+      softFallbackRuns: runs.filter((run) => run.softFallbacks > 0).length,
+      flakinessRate: runs.length > 0 ? flakyRuns / runs.length : 0,
+    };
+  }
+
+  private printSummary(report: TestFlakiness[], historyRuns: number): void {
+    const noteworthy = report.filter(
+      (test) => test.retries > 0 || test.softFallbacks > 0 || test.quarantine || test.trend.flakyRuns > 0,
+    );
+    console.log(`\n🎲 Flakiness (retries and soft fallbacks, history of ${historyRuns} run(s)):`);
+    if (noteworthy.length === 0) {
+      console.log('✅ No retries or soft fallbacks in this run');
+    }
+
+    for (const test of noteworthy) {
+      const marker = test.outcome === 'unexpected' ? '❌' : test.outcome === 'flaky' ? '🎲' : '⚠️';
+      console.log(
+        `${marker} [${test.project}] ${test.title}: ${test.outcome}, ${test.retries} retr${test.retries === 1 ? 'y' : 'ies'}, ` +
+          `${test.softFallbacks} soft fallback(s); flaky in ${test.trend.flakyRuns}/${test.trend.runs} run(s)`,
+      );
+      if (test.quarantine) {
+        console.log(`   🧪 Quarantined: ${describeQuarantine(test.quarantine)}`);
+      }
+      for (const step of test.steps) {
+        console.log(
+          `   ↳ "${step.step}": failed ${step.failedAttempts}/${step.attempts} attempt(s), ${step.softFallbacks} soft fallback(s)`,
+        );
+      }
+    }
+    console.log(`📄 Full report: ${path.relative(process.cwd(), this.outputFile)}`);
+  }
+}
+
+export default FlakinessReporter;
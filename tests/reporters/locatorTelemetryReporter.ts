@@ -0,0 +1,122 @@
+import fs from 'fs';
+import path from 'path';
+import type { FullConfig, Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import { LOCATOR_CASCADE_ATTACHMENT, LocatorCascadeRecord } from '../helpers/locatorCascade';
+
+/**
+ * Behind the Test - Locator Telemetry Reporter
+ *
+ * Aggregates the `locator-cascade` attachments written by resolveLocator()
+ * into a per-run report: for every target, how often the primary selector
+ * matched, how often it fell through, and which fallback caught it.
+ *
+ * Output: <outputDir>/locator-telemetry.json plus a console summary.
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ */
+
+interface TargetTelemetry {
+  target: string;
+  primaryStrategy: string;
+  resolutions: number;
+  primaryMatches: number;
+  fellThrough: number;
+  failures: number;
+  fallThroughRate: number;
+  matchesByStrategy: Record<string, number>;
+  tests: string[];
+}
+
+interface LocatorTelemetryOptions {
+  outputFile?: string;
+}
+
+class LocatorTelemetryReporter implements Reporter {
+  private readonly targets = new Map<string, TargetTelemetry>();
+  private outputFile: string;
+
+  constructor(options: LocatorTelemetryOptions = {}) {
+    this.outputFile = options.outputFile ?? '';
+  }
+
+  onBegin(config: FullConfig): void {
+    if (!this.outputFile) {
+      const outputDir = config.projects[0]?.outputDir ?? path.join(config.rootDir, 'test-results');
+      this.outputFile = path.join(outputDir, 'locator-telemetry.json');
+    }
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    for (const attachment of result.attachments) {
+      if (attachment.name !== LOCATOR_CASCADE_ATTACHMENT || !attachment.body) {
+        continue;
+      }
+      this.record(JSON.parse(attachment.body.toString()) as LocatorCascadeRecord, test);
+    }
+  }
+
+  onEnd(): void {
+    if (this.targets.size === 0) {
+      return;
+    }
+
+    const report = [...this.targets.values()].sort((a, b) => b.fallThroughRate - a.fallThroughRate);
+    fs.mkdirSync(path.dirname(this.outputFile), { recursive: true });
+    fs.writeFileSync(
+      this.outputFile,
+      JSON.stringify({ generatedAt: new Date().toISOString(), targets: report }, null, 2),
+    );
+
+    console.log('\n🧭 Locator telemetry (primary selector fall-through per target):');
+    for (const entry of report) {
+      const marker = entry.failures > 0 ? '❌' : entry.fellThrough > 0 ? '⚠️' : '✅';
+      console.log(
+        `${marker} ${entry.target}: ${entry.fellThrough}/${entry.resolutions} fell through ` +
+          `(${Math.round(entry.fallThroughRate * 100)}%) past "${entry.primaryStrategy}"` +
+          (entry.failures > 0 ? `, ${entry.failures} exhausted every strategy` : ''),
+      );
+    }
+    console.log(`📄 Full report: ${path.relative(process.cwd(), this.outputFile)}`);
+  }
+
+  printsToStdio(): boolean {
+    return false;
+  }
+
+  private record(record: LocatorCascadeRecord, test: TestCase): void {
+    const entry = this.targets.get(record.target) ?? {
+      target: record.target,
+      primaryStrategy: record.strategies[0],
+      resolutions: 0,
+      primaryMatches: 0,
+      fellThrough: 0,
+      failures: 0,
+      fallThroughRate: 0,
+      matchesByStrategy: {},
+      tests: [],
+    };
+
+    entry.resolutions += 1;
+    if (record.matchedIndex === 0) {
+      entry.primaryMatches += 1;
+    } else {
+      entry.fellThrough += 1;
+    }
+    if (record.matchedStrategy === null) {
+      entry.failures += 1;
+    } else {
+      entry.matchesByStrategy[record.matchedStrategy] = (entry.matchesByStrategy[record.matchedStrategy] ?? 0) + 1;
+    }
+    entry.fallThroughRate = entry.fellThrough / entry.resolutions;
+
+    const testTitle = test.titlePath().filter(Boolean).join(' › ');
+    if (!entry.tests.includes(testTitle)) {
+      entry.tests.push(testTitle);
+    }
+
+    this.targets.set(record.target, entry);
+  }
+}
+
+export default LocatorTelemetryReporter;
@@ -0,0 +1,61 @@
+/**
+ * Behind the Test - Unit: Evidence Folders
+ *
+ * Each test writes its screenshots and manifest to its own folder. The
+ * locale journeys share their first 80 characters and the overlay regions
+ * share a test title, so a folder named after the title alone made
+ * parallel runs overwrite each other's screenshots. No browser needed.
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ */
+
+import { Page, TestInfo, expect, test } from '@playwright/test';
+import { EvidenceCollector } from '@helpers/evidence';
+import { TAG } from '@helpers/tags';
+import { localeCatalog } from '@data/locales';
+
+function evidenceDirectory(titlePath: string[], overrides: Partial<TestInfo> = {}): string {
+  const testInfo = {
+    title: titlePath[titlePath.length - 1],
+    titlePath,
+    project: { name: 'Chromium' },
+    retry: 0,
+    ...overrides,
+  } as TestInfo;
+
+  // QA Insight: The folder is fixed in the constructor; nothing touches the page until capture()
+  return new EvidenceCollector({} as Page, testInfo).directory;
+}
+
+test.describe('Unit: Evidence folders', { tag: TAG.unit }, () => {
+  test('Every locale journey gets its own evidence folder', () => {
+    // Consistency: Same title template as spotify-unauthenticated-flow.spec.ts
+    const directories = localeCatalog.map(({ code }) =>
+      evidenceDirectory([
+        'episodes/episode-01/spotify-unauthenticated-flow.spec.ts',
+        'Behind the Test - Episode 1: Spotify Unauthenticated Flow',
+        `Complete Unauthenticated User Journey: Language → Search → Discovery → Authentication Boundary [${code}]`,
+      ]),
+    );
+
+    expect(new Set(directories).size).toBe(localeCatalog.length);
+  });
+
+  test('The same test title in two describes gets two folders', () => {
+    const [first, second] = ['Region A', 'Region B'].map((region) =>
+      evidenceDirectory(['episodes/episode-01/overlay-handling.spec.ts', region, 'Overlays are handled']),
+    );
+
+    expect(first).not.toBe(second);
+  });
+
+  test('Retries and projects do not overwrite the first attempt', () => {
+    const titlePath = ['episodes/episode-01/login-modal.spec.ts', 'Login modal from the album play button'];
+    const firstAttempt = evidenceDirectory(titlePath);
+
+    expect(firstAttempt).toMatch(/[\\/]chromium[\\/]login-modal-from-the-album-play-button-[0-9a-f]{8}$/);
+    expect(evidenceDirectory(titlePath, { retry: 1 })).toBe(`${firstAttempt}-retry1`);
+    expect(evidenceDirectory(titlePath, { project: { name: 'Pixel 7' } as TestInfo['project'] })).toMatch(/[\\/]pixel-7[\\/]/);
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Behind the Test - Unit: HAR Fixture Paths
+ *
+ * Each test replays its own HAR. The locale journeys share their first 80
+ * characters and the overlay regions share a test title, so a path built
+ * from the title alone replayed one test's traffic to the others. No
+ * browser needed.
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ */
+
+import { TestInfo, expect, test } from '@playwright/test';
+import { harFixturePath } from '@helpers/harNetwork';
+import { TAG } from '@helpers/tags';
+import { localeCatalog } from '@data/locales';
+
+type TitledTest = Pick<TestInfo, 'title' | 'titlePath' | 'project'>;
+
+const chromium = { name: 'Chromium' } as TestInfo['project'];
+
+function titledTest(...titlePath: string[]): TitledTest {
+  return { title: titlePath[titlePath.length - 1], titlePath, project: chromium };
+}
+
+test.describe('Unit: HAR fixture paths', { tag: TAG.unit }, () => {
+  test('Every locale journey replays its own HAR', () => {
+    // Consistency: Same title template as spotify-unauthenticated-flow.spec.ts
+    const paths = localeCatalog.map(({ code }) =>
+      harFixturePath(
+        'episode-01',
+        titledTest(
+          'episodes/episode-01/spotify-unauthenticated-flow.spec.ts',
+          'Behind the Test - Episode 1: Spotify Unauthenticated Flow',
+          `Complete Unauthenticated User Journey: Language → Search → Discovery → Authentication Boundary [${code}]`,
+        ),
+      ),
+    );
+
+    expect(new Set(paths).size).toBe(localeCatalog.length);
+  });
+
+  test('The same test title in two describes replays two HARs', () => {
+    const [first, second] = ['Region A', 'Region B'].map((region) =>
+      harFixturePath('episode-01', titledTest('episodes/episode-01/overlay-handling.spec.ts', region, 'Overlays are handled')),
+    );
+
+    expect(first).not.toBe(second);
+  });
+
+  test('Projects and scenarios keep separate fixture folders', () => {
+    const journey = titledTest('episodes/episode-01/login-modal.spec.ts', 'Login modal from the album play button');
+    const onPhone = { ...journey, project: { name: 'iPhone 14' } as TestInfo['project'] };
+
+    expect(harFixturePath('episode-01', journey)).toMatch(/[\\/]episode-01[\\/]chromium[\\/]login-modal-from-the-album-play-button-[0-9a-f]{8}\.har$/);
+    expect(harFixturePath('episode-01', onPhone)).toMatch(/[\\/]iphone-14[\\/]/);
+    expect(harFixturePath('episode-01-login-modal', journey)).not.toBe(harFixturePath('episode-01', journey));
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Behind the Test - Unit: Selector Suggestions
+ *
+ * The suggestions only help if the failed locator is read correctly out of
+ * Playwright's error, the renamed element outranks everything else on the
+ * page and the suggested selector actually parses. Fed with handcrafted
+ * errors and DOM snapshots, no browser needed.
+ *
+ * @author Pedro Porpino
+ * @series Behind the Test
+ */
+
+import { TestInfo, expect, test } from '@playwright/test';
+import { DomElementFingerprint, DomSnapshot } from '@helpers/domSnapshot';
+import { SelectorBaseline, baselineFile, failedLocatorsFromError, suggestSelectors } from '@helpers/selectorSuggestions';
+import { TAG } from '@helpers/tags';
+
+function element(overrides: Partial<DomElementFingerprint>): DomElementFingerprint {
+  return { tag: 'div', role: null, name: '', text: '', testId: null, attributes: {}, visible: true, ...overrides };
+}
+
+function snapshot(...elements: DomElementFingerprint[]): DomSnapshot {
+  return { url: 'https://open.spotify.com/search', capturedAt: '2026-01-01T00:00:00.000Z', elements };
+}
+
+const searchInput = element({
+  tag: 'input',
+  role: 'searchbox',
+  name: 'What do you want to listen to?',
+  testId: 'search-input',
+  attributes: { placeholder: 'What do you want to listen to?', type: 'search' },
+});
+const headerLogin = element({ tag: 'button', role: 'button', name: 'Log in', text: 'Log in', testId: 'login-button' });
+
+const expectError = [
+  'Error: \u001b[2mexpect(\u001b[22m\u001b[31mlocator\u001b[39m\u001b[2m).\u001b[22mtoBeVisible\u001b[2m()\u001b[22m',
+  '',
+  "Locator: getByTestId('search-input')",
+  'Expected: visible',
+  'Received: <element(s) not found>',
+  'Call log:',
+  '  - expect.toBeVisible with timeout 5000ms',
+  "  - waiting for getByTestId('search-input')",
+].join('\n');
+
+test.describe('Unit: Selector suggestions', { tag: TAG.unit }, () => {
+  test('Reads each failed locator once, without terminal colours', () => {
+    expect(failedLocatorsFromError(expectError)).toEqual([
+      { description: "getByTestId('search-input')", testIds: ['search-input'], roles: [], texts: [] },
+    ]);
+  });
+
+  test('Reads role names, text hints and CSS test ids from action call logs', () => {
+    const actionError = [
+      'Error: locator.click: Test timeout of 60000ms exceeded.',
+      'Call log:',
+      '  - waiting for navigation to finish...',
+      "  - waiting for getByRole('button', { name: /^(?:Play|Tocar)$/i }) to be visible",
+      "  - waiting for locator('[data-testid=\"action-bar\"]').getByText('Don\\'t miss')",
+    ].join('\n');
+
+    const [role, text] = failedLocatorsFromError(actionError);
+
+    expect(role.roles).toEqual([{ role: 'button', name: { source: '^(?:Play|Tocar)$', regex: true, flags: 'i' } }]);
+    expect(text.testIds).toEqual(['action-bar']);
+    expect(text.texts).toEqual([{ source: "Don't miss", regex: false }]);
+  });
+
+  test('Ranks the renamed element first, against how it looked in the last green run', () => {
+    const [failed] = failedLocatorsFromError(expectError);
+    const baseline: SelectorBaseline = {
+      test: 'Search',
+      project: 'Chromium',
+      capturedAt: '2025-12-31T00:00:00.000Z',
+      elements: [{ ...searchInput, steps: ['Search for the album'] }, { ...headerLogin, steps: ['Search for the album'] }],
+    };
+    const renamed = { ...searchInput, testId: 'search-field' };
+
+    const report = suggestSelectors(failed, snapshot(headerLogin, renamed), baseline, 'Search for the album');
+
+    expect(report.reference.source).toBe('last green run');
+    expect(report.stillMatches).toBe(false);
+    expect(report.candidates[0]).toMatchObject({ selector: "getByTestId('search-field')", matches: 1 });
+    expect(report.candidates.map((candidate) => candidate.selector)).not.toContain("getByTestId('login-button')");
+  });
+
+  test('Flags a locator that still matches instead of suggesting a rename', () => {
+    const [failed] = failedLocatorsFromError(expectError);
+
+    const report = suggestSelectors(failed, snapshot(searchInput, headerLogin), null, null);
+
+    expect(report.reference.source).toBe('failed locator');
+    expect(report.stillMatches).toBe(true);
+  });
+
+  test('Suggests CSS-escaped ids and counts every element sharing one', () => {
+    const [failed] = failedLocatorsFromError("Locator: getByText('Now playing')");
+    const nowPlaying = element({ name: 'Now playing', text: 'Now playing', attributes: { id: 'player:1' } });
+    const leadingDigit = element({ name: 'Now playing bar', text: 'Now playing bar', attributes: { id: '1st-bar' } });
+
+    const report = suggestSelectors(failed, snapshot(nowPlaying, { ...nowPlaying }, leadingDigit), null, null);
+    const selectors = Object.fromEntries(report.candidates.map((candidate) => [candidate.selector, candidate.matches]));
+
+    // QA Insight: An unescaped ':' or leading digit is an invalid selector, not a suggestion
+    expect(selectors).toEqual({ "locator('#player\\\\:1')": 2, "locator('#\\\\31 st-bar')": 1 });
+  });
+
+  test('Keeps one baseline file per test, even when titles only differ at the end', () => {
+    const project = { name: 'Chromium' } as TestInfo['project'];
+    const [english, japanese] = ['en', 'ja'].map((code) => {
+      const title = `Complete Unauthenticated User Journey: Language → Search → Discovery → Authentication Boundary [${code}]`;
+      return baselineFile({ title, titlePath: ['journey.spec.ts', title], project }, 'live');
+    });
+
+    expect(english).not.toBe(japanese);
+    expect(english).toMatch(/[\\/]live[\\/]chromium[\\/]complete-unauthenticated-user-journey-[\w-]+-[0-9a-f]{8}\.json$/);
+  });
+});